@@ -2,21 +2,34 @@ import React, { useState, useCallback } from "react";
 import { Box, Text, useApp, useInput } from "ink";
 import type { DatalatheClient } from "@datalathe/client";
 import { ClientContext } from "./hooks/use-client.js";
-import { useNavigation } from "./hooks/use-navigation.js";
+import { useNavigation, type Screen } from "./hooks/use-navigation.js";
 import { useTerminalSize } from "./hooks/use-terminal-size.js";
 import { usePanelFocus } from "./hooks/use-panel-focus.js";
+import { useHealthCheck, type HealthStatus } from "./hooks/use-health-check.js";
+import { useSoftDelete } from "./hooks/use-soft-delete.js";
 import { LogoWordmark } from "./components/ascii-logo.js";
 import { Sidebar } from "./components/sidebar.js";
+import { HealthBanner } from "./components/health-banner.js";
+import { UndoToast } from "./components/undo-toast.js";
 import { ConnectScreen } from "./screens/connect.js";
 import { HomeScreen } from "./screens/home.js";
 import { DatabaseTablesScreen } from "./screens/database-tables.js";
 import { CreateChipScreen } from "./screens/create-chip.js";
 import { CreateChipFromChipScreen } from "./screens/create-chip-from-chip.js";
 import { ChipDetailScreen } from "./screens/chip-detail.js";
+import { ChipPreviewScreen } from "./screens/chip-preview.js";
+import { ChipLineageScreen } from "./screens/chip-lineage.js";
+import { ChipRefreshScreen } from "./screens/chip-refresh.js";
 import { QueryScreen } from "./screens/query.js";
+import { QueryHistoryScreen } from "./screens/query-history.js";
 import { DeleteChipScreen } from "./screens/delete-chip.js";
+import { BulkActionsScreen } from "./screens/bulk-actions.js";
+import { TrashScreen } from "./screens/trash.js";
+import { StorageOverviewScreen } from "./screens/storage-overview.js";
 import { ExtractTablesScreen } from "./screens/extract-tables.js";
 import { DownloadBinariesScreen } from "./screens/download-binaries.js";
+import { SaveProfileScreen } from "./screens/save-profile.js";
+import type { ConnectionSettings } from "./utils/connection.js";
 import { brand } from "./theme.js";
 
 const SCREEN_TITLES: Record<string, string> = {
@@ -26,20 +39,45 @@ const SCREEN_TITLES: Record<string, string> = {
   "create-chip": "Create Chip",
   "create-chip-from-chip": "Create Chip from Chip",
   "chip-detail": "Chip Detail",
+  "chip-preview": "Chip Preview",
+  "chip-lineage": "Chip Lineage",
+  "chip-refresh": "Refresh Chip",
   query: "Query Chips",
+  "query-history": "Query History",
   "delete-chip": "Delete Chip",
+  "bulk-actions": "Bulk Actions",
+  trash: "Trash",
+  "storage-overview": "Storage & Expiry",
   "extract-tables": "Extract Tables",
   "download-binaries": "Download Binaries",
+  "save-profile": "Save Profile",
+};
+
+const HEALTH_COLORS: Record<HealthStatus, string> = {
+  checking: brand.muted,
+  up: brand.success,
+  down: brand.error,
 };
 
 interface AppProps {
   url: string;
+  /** Connect with this saved profile on launch (`--profile`). */
+  profile?: string;
+  /** Token and TLS settings from flags and the environment, applied to every connection. */
+  overrides?: Partial<ConnectionSettings>;
+  /** Default page size for query results. */
+  resultLimit: number;
+  /** Seconds a deletion can be undone before the chip is really deleted. */
+  undoSeconds: number;
 }
 
-export function App({ url }: AppProps) {
+export function App({ url, profile, overrides, resultLimit, undoSeconds }: AppProps) {
   const { exit } = useApp();
   const [client, setClient] = useState<DatalatheClient | null>(null);
-  const [connectedUrl, setConnectedUrl] = useState<string | null>(null);
+  const [connection, setConnection] = useState<ConnectionSettings | null>(null);
+  const [profileName, setProfileName] = useState<string | null>(null);
+  // --profile only applies to the first connection, not after switching
+  const [launchProfile, setLaunchProfile] = useState(profile);
   const [inputActive, setInputActive] = useState(false);
   const [preConnectScreen, setPreConnectScreen] = useState<"connect" | "download">("connect");
   const [checkedChipIds, setCheckedChipIds] = useState<string[]>([]);
@@ -50,25 +88,62 @@ export function App({ url }: AppProps) {
   const isConnected = client !== null;
   const { activePanel, focusPanel } = usePanelFocus(inputActive);
 
+  // Reload the sidebar once the engine answers again after an outage
+  const health = useHealthCheck(client, () => setSidebarRefreshKey((k) => k + 1));
+
+  // Chips leave the sidebar and the checked set only once they're really deleted
+  const softDelete = useSoftDelete(client, connection?.url ?? null, undoSeconds * 1000, (deletedIds) => {
+    setCheckedChipIds((prev) => prev.filter((id) => !deletedIds.includes(id)));
+    setSidebarRefreshKey((k) => k + 1);
+  });
+
   const handleConnect = useCallback(
-    (newClient: DatalatheClient, connUrl: string) => {
+    (newClient: DatalatheClient, settings: ConnectionSettings, name: string | null) => {
       setClient(newClient);
-      setConnectedUrl(connUrl);
+      setConnection(settings);
+      setProfileName(name);
       setInputActive(false);
-      navigate("home");
+      goHome();
     },
-    [navigate],
+    [goHome],
   );
 
+  // Drop the client and everything tied to it; the sidebar unmounts, so its
+  // expanded databases and chip cursor start fresh on the next engine
+  const handleSwitchConnection = useCallback(() => {
+    // Pending deletions belong to the old engine; finish them rather than leave them hanging
+    softDelete.flush();
+    setClient(null);
+    setLaunchProfile(undefined);
+    setCheckedChipIds([]);
+    setInputActive(false);
+    setPreConnectScreen("connect");
+    focusPanel("main");
+  }, [focusPanel, softDelete.flush]);
+
+  const quit = useCallback(() => {
+    softDelete.flush().finally(exit);
+  }, [softDelete.flush, exit]);
+
   // Global keys — only blocked when a TextInput is actively rendered
   useInput((input, key) => {
     if (inputActive) return;
     if (input === "q") {
-      exit();
+      quit();
+    }
+    // Navigation history is stale until the next connection resets it
+    if (!isConnected) return;
+    if (input === "u" && softDelete.pending.length > 0) {
+      softDelete.undo();
+      return;
+    }
+    if (key.ctrl && input === "e") {
+      handleSwitchConnection();
+      return;
     }
     if (key.escape || input === "b") {
       if (current.screen === "home") {
-        if (key.escape) exit();
+        if (key.escape) quit();
       } else {
         goBack();
         focusPanel("main");
@@ -93,19 +168,17 @@ export function App({ url }: AppProps) {
     [navigate, focusPanel],
   );
 
-  const handleChipDeleted = useCallback(() => {
-    const deletedId = current.params.chipId as string;
-    setCheckedChipIds((prev) => prev.filter((id) => id !== deletedId));
-    setSidebarRefreshKey((k) => k + 1);
-    goBack();
-  }, [current.params.chipId, goBack]);
-
   const mainFocused = activePanel === "main";
 
+  const handleHomeNavigate = (screen: Screen) => {
+    if (screen === "connect") handleSwitchConnection();
+    else navigate(screen);
+  };
+
   function renderScreen() {
     switch (current.screen) {
       case "home":
-        return <HomeScreen onNavigate={(screen) => navigate(screen)} isFocused={mainFocused} />;
+        return <HomeScreen onNavigate={handleHomeNavigate} isFocused={mainFocused} />;
       case "database-tables":
         return (
           <DatabaseTablesScreen
@@ -114,12 +187,14 @@ export function App({ url }: AppProps) {
               navigate("create-chip", { initialSource: db, initialTable: table })
             }
             onBack={goBack}
+            onInputActive={setInputActive}
             isFocused={mainFocused}
           />
         );
       case "create-chip":
         return (
           <CreateChipScreen
+            connectionUrl={connection!.url}
             initialSource={current.params.initialSource as string | undefined}
             initialTable={current.params.initialTable as string | undefined}
             onDone={(chipId) => navigate("chip-detail", { chipId })}
@@ -130,6 +205,7 @@ export function App({ url }: AppProps) {
       case "create-chip-from-chip":
         return (
           <CreateChipFromChipScreen
+            connectionUrl={connection!.url}
             defaultChipIds={current.params.sourceChipIds as string[] | undefined}
             onDone={(chipId) => {
               setSidebarRefreshKey((k) => k + 1);
@@ -147,18 +223,97 @@ export function App({ url }: AppProps) {
             checkedChipIds={checkedChipIds}
             onQuery={(chipIds) => navigate("query", { queryChipIds: chipIds })}
             onCreateFromChip={(chipIds) => navigate("create-chip-from-chip", { sourceChipIds: chipIds })}
+            onPreview={(chipId) => navigate("chip-preview", { chipId })}
+            onLineage={(chipId) => navigate("chip-lineage", { chipId })}
+            onRefresh={(chipId) => navigate("chip-refresh", { chipId })}
             onBack={goBack}
-            onDeleted={handleChipDeleted}
+            onDelete={softDelete.schedule}
+            onDeleted={goBack}
+            onTagsChanged={() => setSidebarRefreshKey((k) => k + 1)}
+            onInputActive={setInputActive}
             isFocused={mainFocused}
           />
         );
-      case "delete-chip":
+      case "chip-preview":
         return (
-          <DeleteChipScreen
-            onDone={() => {
+          <ChipPreviewScreen
+            chipId={current.params.chipId as string}
+            onBack={goBack}
+            onInputActive={setInputActive}
+            isFocused={mainFocused}
+          />
+        );
+      case "chip-lineage":
+        return (
+          <ChipLineageScreen
+            chipId={current.params.chipId as string}
+            connectionUrl={connection!.url}
+            onSelectChip={(chipId) => navigate("chip-detail", { chipId })}
+            onBack={goBack}
+            isFocused={mainFocused}
+          />
+        );
+      case "chip-refresh":
+        return (
+          <ChipRefreshScreen
+            chipId={current.params.chipId as string}
+            connectionUrl={connection!.url}
+            onDelete={softDelete.schedule}
+            onRefreshed={(newChipId, trashedOld) => {
+              const oldChipId = current.params.chipId as string;
               setSidebarRefreshKey((k) => k + 1);
+              // Check the replacement now; the old chip leaves the selection once it's really deleted
+              if (trashedOld) {
+                setCheckedChipIds((prev) =>
+                  prev.includes(oldChipId) && !prev.includes(newChipId) ? [...prev, newChipId] : prev,
+                );
+              }
+            }}
+            onOpenChip={(chipId) => {
               goHome();
+              navigate("chip-detail", { chipId });
             }}
+            isFocused={mainFocused}
+          />
+        );
+      case "delete-chip":
+        return (
+          <DeleteChipScreen
+            onDelete={softDelete.schedule}
+            onDone={goHome}
+            onBack={goBack}
+            isFocused={mainFocused}
+          />
+        );
+      case "bulk-actions":
+        return (
+          <BulkActionsScreen
+            chipIds={checkedChipIds}
+            connectionUrl={connection!.url}
+            onDelete={softDelete.schedule}
+            onChanged={() => setSidebarRefreshKey((k) => k + 1)}
+            onBack={goBack}
+            onInputActive={setInputActive}
+            isFocused={mainFocused}
+          />
+        );
+      case "trash":
+        return (
+          <TrashScreen
+            connectionUrl={connection!.url}
+            pendingChipIds={softDelete.pending.flatMap((p) => p.chipIds)}
+            onRestored={() => setSidebarRefreshKey((k) => k + 1)}
+            onOpenChip={(chipId) => navigate("chip-detail", { chipId })}
+            onBack={goBack}
+            isFocused={mainFocused}
+          />
+        );
+      case "storage-overview":
+        return (
+          <StorageOverviewScreen
+            connectionUrl={connection!.url}
+            onSelectChip={(chipId) => navigate("chip-detail", { chipId })}
+            onRefresh={(chipId) => navigate("chip-refresh", { chipId })}
             onBack={goBack}
             isFocused={mainFocused}
           />
@@ -174,15 +329,45 @@ export function App({ url }: AppProps) {
       case "query":
         return (
           <QueryScreen
+            connectionUrl={connection!.url}
             defaultChipIds={
               (current.params.queryChipIds as string[] | undefined) ??
               (checkedChipIds.length > 0 ? checkedChipIds : undefined)
             }
+            pageSize={resultLimit}
+            initialSql={current.params.initialSql as string | undefined}
+            initialTransform={current.params.initialTransform as boolean | undefined}
+            autoRun={current.params.autoRun as boolean | undefined}
+            onOpenHistory={() => navigate("query-history")}
             onBack={goHome}
             onInputActive={setInputActive}
             isFocused={mainFocused}
           />
         );
+      case "query-history":
+        return (
+          <QueryHistoryScreen
+            connectionUrl={connection!.url}
+            onRun={(entry) =>
+              navigate("query", {
+                queryChipIds: entry.chipIds,
+                initialSql: entry.sql,
+                initialTransform: entry.transform,
+                autoRun: true,
+              })
+            }
+            onRunWithOtherChips={(entry) =>
+              navigate("query", {
+                queryChipIds: [],
+                initialSql: entry.sql,
+                initialTransform: entry.transform,
+              })
+            }
+            onBack={goBack}
+            onInputActive={setInputActive}
+            isFocused={mainFocused}
+          />
+        );
       case "download-binaries":
         return (
           <DownloadBinariesScreen
@@ -190,8 +375,20 @@ export function App({ url }: AppProps) {
             onInputActive={setInputActive}
           />
         );
+      case "save-profile":
+        return (
+          <SaveProfileScreen
+            connection={connection!}
+            profileName={profileName}
+            onSaved={(saved) => {
+              setConnection(saved);
+              setProfileName(saved.name);
+            }}
+            onInputActive={setInputActive}
+          />
+        );
       default:
-        return <HomeScreen onNavigate={(screen) => navigate(screen)} isFocused={mainFocused} />;
+        return <HomeScreen onNavigate={handleHomeNavigate} isFocused={mainFocused} />;
     }
   }
 
@@ -223,7 +420,9 @@ export function App({ url }: AppProps) {
         justifyContent="center"
       >
         <ConnectScreen
-          initialUrl={url}
+          initialUrl={connection?.url ?? url}
+          initialProfile={launchProfile}
+          overrides={overrides}
           onConnect={handleConnect}
           onDownload={() => setPreConnectScreen("download")}
         />
@@ -236,9 +435,14 @@ export function App({ url }: AppProps) {
   const mainWidth = columns - sidebarWidth;
   const mainBorder = activePanel === "main" ? brand.cyan : brand.border;
   const screenTitle = SCREEN_TITLES[current.screen] ?? "";
+  const connectedUrl = connection?.url ?? "";
+  const connectionLabel = profileName ? `${profileName} · ${connectedUrl}` : connectedUrl;
 
-  // Heights: total = rows, header = 1, status = 1, content = rest
-  const contentHeight = rows - 2; // header line + status line
+  // Heights: total = rows, header = 1, status = 1, banner = 1 while down,
+  // toast = 1 while a deletion is pending or just finished, content = rest
+  const showBanner = health.status === "down";
+  const showToast = softDelete.pending.length > 0 || softDelete.notice !== null;
+  const contentHeight = rows - 2 - (showBanner ? 1 : 0) - (showToast ? 1 : 0);
 
   return (
     <ClientContext.Provider value={client}>
@@ -247,9 +451,11 @@ export function App({ url }: AppProps) {
         <Box width={columns} justifyContent="space-between" paddingX={1}>
           <LogoWordmark />
           <Text color={brand.muted}>{screenTitle}</Text>
-          <Text color={brand.muted}>{connectedUrl}</Text>
+          <Text color={brand.muted}>{connectionLabel}</Text>
         </Box>
 
+        {showBanner && <HealthBanner health={health} url={connectedUrl} width={columns} />}
+
         {/* Main content area */}
         <Box flexDirection="row" height={contentHeight}>
           {/* Main panel */}
@@ -281,16 +487,24 @@ export function App({ url }: AppProps) {
             onSelectTable={handleSelectTable}
             onSelectChip={handleSelectChip}
             refreshKey={sidebarRefreshKey}
+            chipFilter={connection?.chipFilter}
+            onInputActive={setInputActive}
           />
         </Box>
 
+        {showToast && <UndoToast pending={softDelete.pending} notice={softDelete.notice} width={columns} />}
+
         {/* Status bar */}
         <Box width={columns} justifyContent="space-between" paddingX={1}>
           <Text color={brand.muted}>
-            <Text color={brand.cyan}>●</Text> {connectedUrl}
+            <Text color={HEALTH_COLORS[health.status]}>●</Text> {connectionLabel}
+            {health.status === "up" && health.latencyMs !== null && (
+              <Text dimColor>{"  "}{health.latencyMs}ms</Text>
+            )}
+            {health.status === "down" && <Text color={brand.error}>{"  "}down</Text>}
           </Text>
           <Text color={brand.muted} dimColor>
-            Tab:panels  q:quit  b:back
+            Tab:panels  Ctrl+E:switch engine  q:quit  b:back
           </Text>
         </Box>
       </Box>
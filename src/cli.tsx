@@ -2,15 +2,57 @@
 import React from "react";
 import { render } from "ink";
 import { App } from "./app.js";
+import { runCommand } from "./commands/index.js";
+import { cliOverrides, DEFAULT_URL } from "./utils/connection.js";
 
 const args = process.argv.slice(2);
-let url = "http://localhost:3000";
+
+let url = DEFAULT_URL;
+let profile: string | undefined;
+let limit = 200;
+let undoSeconds = 10;
+const authFlags: { token?: string; ca?: string; cert?: string; key?: string } = {};
+/** Arguments that aren't options or option values, e.g. `chips list`. */
+const words: string[] = [];
 
 for (let i = 0; i < args.length; i++) {
   if (args[i] === "--url" && args[i + 1]) {
     url = args[i + 1];
     i++;
+  } else if (args[i] === "--profile" && args[i + 1]) {
+    profile = args[i + 1];
+    i++;
+  } else if (["--token", "--ca", "--cert", "--key"].includes(args[i]) && args[i + 1]) {
+    authFlags[args[i].slice(2) as keyof typeof authFlags] = args[i + 1];
+    i++;
+  } else if (args[i] === "--limit" && args[i + 1]) {
+    const n = parseInt(args[i + 1], 10);
+    if (!isNaN(n) && n > 0) limit = n;
+    i++;
+  } else if (args[i] === "--undo-seconds" && args[i + 1]) {
+    const n = parseInt(args[i + 1], 10);
+    if (!isNaN(n) && n >= 0) undoSeconds = n;
+    i++;
+  } else if (!args[i].startsWith("-")) {
+    words.push(args[i]);
   }
 }
 
-render(<App url={url} />);
+// A command word runs non-interactively wherever it appears, e.g.
+// `datalathe-tui --profile ci chips list`. Any other word is rejected by
+// runCommand with the usage text and exit code 2 instead of starting the UI.
+if (words.length > 0 || args.includes("--help") || args.includes("-h")) {
+  runCommand(args).then((code) => {
+    process.exitCode = code;
+  });
+} else {
+  render(
+    <App
+      url={url}
+      profile={profile}
+      overrides={cliOverrides(authFlags)}
+      resultLimit={limit}
+      undoSeconds={undoSeconds}
+    />,
+  );
+}
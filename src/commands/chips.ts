@@ -0,0 +1,89 @@
+import type { DatalatheClient, Chip, ChipMetadata, ChipTag } from "@datalathe/client";
+import { buildChipIndex, subChipCount } from "../utils/chip-options.js";
+import { formatRows, type OutputFormat } from "./output.js";
+
+function isoDate(epoch: number | undefined): string {
+  return epoch ? new Date(epoch * 1000).toISOString() : "";
+}
+
+/** One row per chip: ID, name, tables, sub-chip count, partitions, tags, created. */
+export async function chipsList(client: DatalatheClient, format: OutputFormat): Promise<string> {
+  const { chips, metadata, tags } = await client.listChips();
+  const allChips: Chip[] = chips ?? [];
+  const metaMap = new Map<string, ChipMetadata>((metadata ?? []).map((m: ChipMetadata) => [m.chip_id, m]));
+  const index = buildChipIndex(allChips, tags ?? []);
+  const mainChipIds = [...new Set(
+    allChips.filter((c) => c.chip_id === c.sub_chip_id).map((c) => c.chip_id),
+  )];
+
+  const rows = mainChipIds.map((id) => {
+    const related = index.chipsByChipId.get(id) ?? [];
+    const meta = metaMap.get(id);
+    return {
+      chip_id: id,
+      name: meta?.name ?? "",
+      tables: [...new Set(related.map((c) => c.table_name))].join(", "),
+      sub_chips: subChipCount(id, index),
+      partitions: [...new Set(related.filter((c) => c.partition_value).map((c) => c.partition_value))].join(", "),
+      tags: (index.tagsByChipId.get(id) ?? []).map((t) => `${t.key}=${t.value}`).join(" "),
+      created_at: isoDate(meta?.created_at),
+    };
+  });
+  return formatRows(rows, format);
+}
+
+/**
+ * Full details for one chip. JSON output is a single object; table and CSV
+ * output list the chip's fields followed by one row per sub-chip.
+ */
+export async function chipsShow(
+  client: DatalatheClient,
+  chipId: string,
+  format: OutputFormat,
+): Promise<string> {
+  const { chips, metadata, tags } = await client.listChips();
+  const related = (chips ?? []).filter((c: Chip) => c.chip_id === chipId);
+  if (related.length === 0) throw new Error(`Chip not found: ${chipId}`);
+  const meta = (metadata ?? []).find((m: ChipMetadata) => m.chip_id === chipId);
+  const chipTags = (tags ?? []).filter((t: ChipTag) => t.chip_id === chipId);
+
+  const subChips = related.map((c: Chip) => ({
+    sub_chip_id: c.sub_chip_id,
+    table_name: c.table_name,
+    partition_value: c.partition_value ?? "",
+    created_at: isoDate(c.created_at),
+  }));
+
+  if (format === "json") {
+    const detail = {
+      chip_id: chipId,
+      name: meta?.name ?? null,
+      description: meta?.description ?? null,
+      query: meta?.query ?? null,
+      created_at: meta ? isoDate(meta.created_at) : null,
+      tags: Object.fromEntries(chipTags.map((t: ChipTag) => [t.key, t.value])),
+      sub_chips: subChips,
+    };
+    return JSON.stringify(detail, null, 2) + "\n";
+  }
+
+  const fields = [
+    { field: "chip_id", value: chipId },
+    { field: "name", value: meta?.name ?? "" },
+    { field: "description", value: meta?.description ?? "" },
+    { field: "query", value: meta?.query ?? "" },
+    { field: "created_at", value: isoDate(meta?.created_at) },
+    { field: "tags", value: chipTags.map((t: ChipTag) => `${t.key}=${t.value}`).join(" ") },
+  ];
+  return formatRows(fields, format) + "\n" + formatRows(subChips, format);
+}
+
+export async function chipsDelete(
+  client: DatalatheClient,
+  chipId: string,
+  format: OutputFormat,
+): Promise<string> {
+  await client.deleteChip(chipId);
+  if (format === "json") return JSON.stringify({ deleted: chipId }) + "\n";
+  return `Deleted chip ${chipId}\n`;
+}
@@ -0,0 +1,33 @@
+import type { DatalatheClient, DuckDBDatabase, DatabaseTable } from "@datalathe/client";
+import { formatRows, type OutputFormat } from "./output.js";
+
+/** Attached databases, excluding DuckDB's internal ones unless `all` is set. */
+export async function databasesList(
+  client: DatalatheClient,
+  all: boolean,
+  format: OutputFormat,
+): Promise<string> {
+  const dbs: DuckDBDatabase[] = await client.getDatabases();
+  const rows = dbs
+    .filter((d) => all || !d.internal)
+    .map((d) => ({ ...d }) as Record<string, unknown>);
+  return formatRows(rows, format);
+}
+
+/** One row per column of every table in the database. */
+export async function databaseSchema(
+  client: DatalatheClient,
+  databaseName: string,
+  format: OutputFormat,
+): Promise<string> {
+  const tables: DatabaseTable[] = await client.getDatabaseSchema(databaseName);
+  const rows = tables.map((t) => ({
+    schema_name: t.schema_name,
+    table_name: t.table_name,
+    column_name: t.column_name,
+    data_type: t.data_type,
+    is_nullable: t.is_nullable,
+    column_default: t.column_default ?? null,
+  }));
+  return formatRows(rows, format);
+}
@@ -0,0 +1,151 @@
+import { parseArgs } from "node:util";
+import {
+  cliOverrides,
+  createClient,
+  describeConnectionError,
+  withOverrides,
+  DEFAULT_URL,
+  TOKEN_ENV,
+  type ConnectionSettings,
+} from "../utils/connection.js";
+import { findProfile } from "../utils/profiles.js";
+import { OUTPUT_FORMATS, type OutputFormat } from "./output.js";
+import { chipsList, chipsShow, chipsDelete } from "./chips.js";
+import { runQuery, extractTables } from "./query.js";
+import { databasesList, databaseSchema } from "./databases.js";
+
+/** Top-level words that run a command instead of the interactive UI. */
+export const COMMANDS = new Set(["chips", "query", "extract-tables", "databases", "help"]);
+
+const EXIT_OK = 0;
+const EXIT_FAILURE = 1;
+const EXIT_USAGE = 2;
+
+const USAGE = `Usage: datalathe-tui [--url <url> | --profile <name>] [--limit <n>] [--undo-seconds <n>]
+       datalathe-tui <command> [options]
+
+Commands:
+  chips list                       List chips
+  chips show <chip-id>             Show a chip's metadata, tags and sub-chips
+  chips delete <chip-id>           Delete a chip
+  query --chips <id,...> --sql <sql>
+                                   Run SQL against chips (reads stdin if --sql is omitted)
+  extract-tables --sql <sql>       List the tables a query references
+  databases list [--all]           List attached databases
+  databases schema <database>      List the columns of every table in a database
+
+Options:
+  --url <url>                      Engine URL (default ${DEFAULT_URL})
+  --profile <name>                 Connect with a saved profile from ~/.datalathe/config.json
+  --token <token>                  Bearer token (prefer ${TOKEN_ENV} to keep it out of ps)
+  --ca <file>                      PEM CA bundle to trust for HTTPS
+  --cert <file> --key <file>       PEM client certificate and key for mutual TLS
+  --format table|json|csv          Output format (default table)
+  --transform                      Transform MySQL/MariaDB syntax to DuckDB first
+  --all                            Include internal databases
+  -h, --help                       Show this help
+`;
+
+/** Bad arguments; reported with the usage text and exit code 2. */
+class UsageError extends Error {}
+
+async function readStdin(): Promise<string> {
+  if (process.stdin.isTTY) return "";
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks).toString("utf-8");
+}
+
+function requireArg(value: string | undefined, what: string): string {
+  if (!value) throw new UsageError(`Missing ${what}`);
+  return value;
+}
+
+/**
+ * Run a non-interactive command. Output goes to stdout, errors to stderr.
+ * Returns the process exit code: 0 on success, 1 when the engine or a query
+ * fails, 2 for invalid arguments.
+ */
+export async function runCommand(argv: string[]): Promise<number> {
+  try {
+    const { values, positionals } = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        url: { type: "string" },
+        profile: { type: "string" },
+        token: { type: "string" },
+        ca: { type: "string" },
+        cert: { type: "string" },
+        key: { type: "string" },
+        format: { type: "string", default: "table" },
+        chips: { type: "string" },
+        sql: { type: "string" },
+        transform: { type: "boolean", default: false },
+        all: { type: "boolean", default: false },
+        help: { type: "boolean", short: "h", default: false },
+      },
+    });
+
+    const [command, sub, arg] = positionals;
+    if (command === "help" || values.help) {
+      process.stdout.write(USAGE);
+      return EXIT_OK;
+    }
+    if (!command || !COMMANDS.has(command)) {
+      throw new UsageError(`Unknown command: ${positionals.join(" ")}`);
+    }
+
+    const format = values.format as OutputFormat;
+    if (!OUTPUT_FORMATS.includes(format)) {
+      throw new UsageError(`Unknown format "${values.format}" (expected ${OUTPUT_FORMATS.join(", ")})`);
+    }
+
+    // Explicit flags override the profile's settings but keep the rest
+    const base: ConnectionSettings = values.profile
+      ? await findProfile(values.profile)
+      : { url: DEFAULT_URL };
+    const client = createClient(withOverrides(base, { url: values.url, ...cliOverrides(values) }));
+    let output: string;
+    let errors: string[] = [];
+
+    if (command === "chips" && sub === "list") {
+      output = await chipsList(client, format);
+    } else if (command === "chips" && sub === "show") {
+      output = await chipsShow(client, requireArg(arg, "chip ID"), format);
+    } else if (command === "chips" && sub === "delete") {
+      output = await chipsDelete(client, requireArg(arg, "chip ID"), format);
+    } else if (command === "query") {
+      const chipIds = requireArg(values.chips, "--chips")
+        .split(",")
+        .map((id) => id.trim())
+        .filter(Boolean);
+      const sql = values.sql ?? (await readStdin());
+      if (!sql.trim()) throw new UsageError("Missing --sql (or SQL on stdin)");
+      ({ output, errors } = await runQuery(client, chipIds, sql, values.transform!, format));
+    } else if (command === "extract-tables") {
+      const sql = values.sql ?? (await readStdin());
+      if (!sql.trim()) throw new UsageError("Missing --sql (or SQL on stdin)");
+      output = await extractTables(client, sql, values.transform!, format);
+    } else if (command === "databases" && sub === "list") {
+      output = await databasesList(client, values.all!, format);
+    } else if (command === "databases" && sub === "schema") {
+      output = await databaseSchema(client, requireArg(arg, "database name"), format);
+    } else {
+      throw new UsageError(`Unknown command: ${positionals.join(" ")}`);
+    }
+
+    process.stdout.write(output);
+    for (const e of errors) process.stderr.write(`error: ${e}\n`);
+    return errors.length > 0 ? EXIT_FAILURE : EXIT_OK;
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    // parseArgs reports unknown or malformed options as TypeErrors
+    if (err instanceof UsageError || (err instanceof TypeError && "code" in err)) {
+      process.stderr.write(`error: ${message}\n\n${USAGE}`);
+      return EXIT_USAGE;
+    }
+    process.stderr.write(`error: ${describeConnectionError(err)}\n`);
+    return EXIT_FAILURE;
+  }
+}
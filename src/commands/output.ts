@@ -0,0 +1,37 @@
+import type { SchemaField } from "@datalathe/client";
+import { exportColumns, serializeRows, toText } from "../utils/export.js";
+
+export type OutputFormat = "table" | "json" | "csv";
+
+export const OUTPUT_FORMATS: OutputFormat[] = ["table", "json", "csv"];
+
+/** Plain aligned text table for terminals; cells are never truncated. */
+function textTable(rows: Record<string, unknown>[], columns: string[]): string {
+  const cells = rows.map((row) => columns.map((c) => toText(row[c]).replace(/\r?\n/g, " ")));
+  const widths = columns.map((c, i) => Math.max(c.length, ...cells.map((r) => r[i]!.length)));
+  const line = (values: string[]) => values.map((v, i) => v.padEnd(widths[i]!)).join("  ").trimEnd();
+  return [
+    line(columns),
+    line(widths.map((w) => "-".repeat(w))),
+    ...cells.map(line),
+  ].join("\n") + "\n";
+}
+
+/** Render rows in the requested format. `schema` fixes column order and types when known. */
+export function formatRows(
+  rows: Record<string, unknown>[],
+  format: OutputFormat,
+  schema: SchemaField[] = [],
+): string {
+  switch (format) {
+    case "table": {
+      const columns = exportColumns(rows, schema);
+      if (columns.length === 0) return "(no rows)\n";
+      return textTable(rows, columns);
+    }
+    case "json":
+      return serializeRows(rows, schema, "json");
+    case "csv":
+      return serializeRows(rows, schema, "csv");
+  }
+}
@@ -0,0 +1,88 @@
+import { DatalatheResultSet } from "@datalathe/client";
+import type { DatalatheClient, SchemaField } from "@datalathe/client";
+import { splitStatements } from "../utils/sql.js";
+import { toJsonRows } from "../utils/export.js";
+import { formatRows, type OutputFormat } from "./output.js";
+
+export interface CommandResult {
+  output: string;
+  /** Errors to report on stderr; any error makes the command exit non-zero. */
+  errors: string[];
+}
+
+interface StatementResult {
+  sql: string;
+  rows: Record<string, unknown>[];
+  schema: SchemaField[];
+  error: string | null;
+}
+
+/**
+ * Run one or more `;`-separated statements against chips in a single report.
+ * A lone statement prints just its rows; several print one section each
+ * (or, as JSON, an array of `{ sql, rows, error }` objects).
+ */
+export async function runQuery(
+  client: DatalatheClient,
+  chipIds: string[],
+  script: string,
+  transform: boolean,
+  format: OutputFormat,
+): Promise<CommandResult> {
+  const statements = splitStatements(script);
+  if (statements.length === 0) throw new Error("No SQL statements to run");
+
+  const report = await client.generateReport(
+    chipIds,
+    statements,
+    undefined,
+    transform || undefined,
+    transform || undefined,
+  );
+
+  const results = statements.map((sql, i): StatementResult => {
+    const entry = report.results.get(i);
+    if (!entry || entry.error) {
+      return { sql, rows: [], schema: [], error: entry?.error ?? "No results returned" };
+    }
+    const rows = new DatalatheResultSet(entry).toArray() as Record<string, unknown>[];
+    return { sql, rows, schema: entry.schema ?? [], error: null };
+  });
+
+  const errors = results
+    .filter((r) => r.error)
+    .map((r) => (results.length > 1 ? `${r.sql}: ${r.error}` : r.error!));
+
+  if (results.length === 1) {
+    const only = results[0]!;
+    return { output: only.error ? "" : formatRows(only.rows, format, only.schema), errors };
+  }
+
+  if (format === "json") {
+    const out = results.map((r) => ({
+      sql: r.sql,
+      rows: toJsonRows(r.rows, r.schema),
+      error: r.error,
+    }));
+    return { output: JSON.stringify(out, null, 2) + "\n", errors };
+  }
+
+  const sections = results
+    .filter((r) => !r.error)
+    .map((r) => (format === "table" ? `-- ${r.sql.replace(/\s+/g, " ")}\n` : "") + formatRows(r.rows, format, r.schema));
+  return { output: sections.join("\n"), errors };
+}
+
+export async function extractTables(
+  client: DatalatheClient,
+  sql: string,
+  transform: boolean,
+  format: OutputFormat,
+): Promise<string> {
+  const result = await client.extractTablesWithTransform(sql, transform || undefined);
+  const tables: string[] = result.tables ?? [];
+  if (format === "json") {
+    return JSON.stringify({ tables, transformed_query: result.transformed_query ?? null }, null, 2) + "\n";
+  }
+  return formatRows(tables.map((t) => ({ table: t })), format);
+}
@@ -0,0 +1,190 @@
+import React, { useState, useEffect, useMemo } from "react";
+import { Box, Text, useInput } from "ink";
+import { brand } from "../theme.js";
+import type { ChipEntry, ChipGroupBy } from "./chips-list.js";
+
+interface ChipGroup {
+  label: string;
+  chipIds: string[];
+}
+
+type TreeNode =
+  | { type: "group"; group: ChipGroup }
+  | { type: "chip"; chip: ChipEntry; groupLabel: string };
+
+/**
+ * Group chips by source table or by one tag key's value, keeping the given
+ * chip order within each group. A chip with several tables or values for the
+ * key appears in each group; chips without one land in a trailing "(none)".
+ */
+export function groupChips(chips: ChipEntry[], groupBy: ChipGroupBy): ChipGroup[] {
+  const groups = new Map<string, string[]>();
+  const ungrouped: string[] = [];
+  for (const chip of chips) {
+    const labels =
+      groupBy.kind === "table"
+        ? chip.tables
+        : chip.tags
+            .filter((t) => t.startsWith(`${groupBy.key}=`))
+            .map((t) => t.slice(groupBy.key.length + 1));
+    if (labels.length === 0) ungrouped.push(chip.chipId);
+    for (const label of new Set(labels)) {
+      const ids = groups.get(label) ?? [];
+      ids.push(chip.chipId);
+      groups.set(label, ids);
+    }
+  }
+  const sorted = [...groups.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([label, chipIds]) => ({ label, chipIds }));
+  if (ungrouped.length > 0) sorted.push({ label: "(none)", chipIds: ungrouped });
+  return sorted;
+}
+
+interface ChipGroupsTreeProps {
+  chips: ChipEntry[];
+  groupBy: ChipGroupBy;
+  isFocused: boolean;
+  checkedChipIds: string[];
+  onCheckedChange: (chipIds: string[]) => void;
+  onSelectChip: (chipId: string) => void;
+  height: number;
+}
+
+/** Collapsible tree of chip groups; space on a group checks or unchecks all of it. */
+export function ChipGroupsTree({
+  chips,
+  groupBy,
+  isFocused,
+  checkedChipIds,
+  onCheckedChange,
+  onSelectChip,
+  height,
+}: ChipGroupsTreeProps) {
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [cursor, setCursor] = useState(0);
+
+  const groups = useMemo(() => groupChips(chips, groupBy), [chips, groupBy]);
+  const chipsById = useMemo(() => new Map(chips.map((c) => [c.chipId, c])), [chips]);
+
+  // Build flat list of visible nodes
+  const nodes: TreeNode[] = [];
+  for (const group of groups) {
+    nodes.push({ type: "group", group });
+    if (expanded.has(group.label)) {
+      for (const id of group.chipIds) {
+        nodes.push({ type: "chip", chip: chipsById.get(id)!, groupLabel: group.label });
+      }
+    }
+  }
+
+  const checked = new Set(checkedChipIds);
+
+  const toggleExpand = (label: string) => {
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      if (next.has(label)) next.delete(label);
+      else next.add(label);
+      return next;
+    });
+  };
+
+  const toggleChecked = (chipIds: string[]) => {
+    const next = new Set(checkedChipIds);
+    const allChecked = chipIds.every((id) => next.has(id));
+    for (const id of chipIds) {
+      if (allChecked) next.delete(id);
+      else next.add(id);
+    }
+    onCheckedChange([...next]);
+  };
+
+  useInput((input, key) => {
+    if (!isFocused || nodes.length === 0) return;
+    const node = nodes[cursor];
+
+    if (key.upArrow) {
+      setCursor((c) => Math.max(0, c - 1));
+    } else if (key.downArrow) {
+      setCursor((c) => Math.min(nodes.length - 1, c + 1));
+    } else if (key.return || key.rightArrow) {
+      if (node?.type === "group") toggleExpand(node.group.label);
+      else if (node && key.return) onSelectChip(node.chip.chipId);
+    } else if (key.leftArrow) {
+      // Collapse the group, jumping to its header from a chip inside it
+      const label = node?.type === "group" ? node.group.label : node?.groupLabel;
+      if (label && expanded.has(label)) {
+        toggleExpand(label);
+        setCursor(nodes.findIndex((n) => n.type === "group" && n.group.label === label));
+      }
+    } else if (input === " " && node) {
+      toggleChecked(node.type === "group" ? node.group.chipIds : [node.chip.chipId]);
+    }
+  });
+
+  // Keep cursor in bounds
+  useEffect(() => {
+    if (cursor >= nodes.length && nodes.length > 0) {
+      setCursor(nodes.length - 1);
+    }
+  }, [cursor, nodes.length]);
+
+  // Scrollable window
+  const maxVisible = Math.max(1, height - 1);
+  let scrollOffset = 0;
+  if (cursor >= scrollOffset + maxVisible) {
+    scrollOffset = cursor - maxVisible + 1;
+  }
+  if (cursor < scrollOffset) {
+    scrollOffset = cursor;
+  }
+  const visible = nodes.slice(scrollOffset, scrollOffset + maxVisible);
+
+  return (
+    <Box flexDirection="column">
+      {visible.map((node, i) => {
+        const globalIdx = scrollOffset + i;
+        const isSelected = isFocused && globalIdx === cursor;
+        const prefix = isSelected ? ">" : " ";
+
+        if (node.type === "group") {
+          const { label, chipIds } = node.group;
+          const icon = expanded.has(label) ? "▾" : "▸";
+          const checkedCount = chipIds.filter((id) => checked.has(id)).length;
+          const checkbox =
+            checkedCount === 0 ? "☐" : checkedCount === chipIds.length ? "☑" : "▣";
+          return (
+            <Text key={`group-${label}`}>
+              <Text color={isSelected ? brand.cyan : brand.muted}>{prefix} </Text>
+              <Text color={isSelected ? brand.cyan : brand.text}>{icon} </Text>
+              <Text color={checkedCount > 0 ? brand.success : brand.muted}>{checkbox} </Text>
+              <Text color={isSelected ? brand.cyan : brand.violet}>{label}</Text>
+              <Text color={brand.muted}>
+                {" "}({checkedCount > 0 ? `${checkedCount}/` : ""}{chipIds.length})
+              </Text>
+            </Text>
+          );
+        }
+
+        // chip node
+        const isLast = globalIdx + 1 >= nodes.length || nodes[globalIdx + 1]?.type === "group";
+        const connector = isLast ? "└" : "├";
+        const isChecked = checked.has(node.chip.chipId);
+        return (
+          <Text key={`chip-${node.groupLabel}-${node.chip.chipId}`} wrap="truncate">
+            <Text color={isSelected ? brand.cyan : brand.muted}>{prefix}   </Text>
+            <Text color={brand.border}>{connector}─ </Text>
+            <Text color={isChecked ? brand.success : brand.muted}>{isChecked ? "☑" : "☐"} </Text>
+            <Text color={isSelected ? brand.cyan : brand.text}>{node.chip.name}</Text>
+            {groupBy.kind !== "table" && <Text color={brand.muted}> {node.chip.table}</Text>}
+          </Text>
+        );
+      })}
+      {nodes.length > maxVisible && (
+        <Text color={brand.muted} dimColor>
+          {" "}  {scrollOffset > 0 ? "↑" : " "} {scrollOffset + maxVisible < nodes.length ? "↓" : " "}
+        </Text>
+      )}
+    </Box>
+  );
+}
@@ -1,18 +1,99 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useMemo } from "react";
 import { Box, Text, useInput } from "ink";
 import { Spinner } from "@inkjs/ui";
 import type { DatalatheClient, ChipMetadata, Chip } from "@datalathe/client";
 import { brand } from "../theme.js";
+import { ChipGroupsTree } from "./chip-groups-tree.js";
 import { formatDate, buildChipIndex, subChipCount, partitionSummary, tagSummary } from "../utils/chip-options.js";
 
-interface ChipEntry {
+export interface ChipEntry {
   chipId: string;
   name: string;
   table: string;
   created: string;
+  /** Epoch seconds; 0 when the chip has no metadata. */
+  createdAt: number;
   subChipCount: number;
   partitionLabel: string | null;
   tagLabel: string | null;
+  /** `key=value` pairs, for filtering. */
+  tags: string[];
+  partitions: string[];
+  /** Source tables, one entry per table (`table` is the joined label). */
+  tables: string[];
+}
+
+/**
+ * Whether a chip matches every whitespace-separated term of a filter.
+ * `key=value` terms match tags; other terms match the name, table or
+ * partition values as substrings, or the chip ID as a prefix.
+ */
+function matchesFilter(chip: ChipEntry, filter: string): boolean {
+  const terms = filter.toLowerCase().split(/\s+/).filter(Boolean);
+  return terms.every((term) => {
+    if (term.includes("=")) return chip.tags.some((t) => t.toLowerCase() === term);
+    return (
+      chip.name.toLowerCase().includes(term) ||
+      chip.table.toLowerCase().includes(term) ||
+      chip.partitions.some((p) => p.toLowerCase().includes(term)) ||
+      chip.chipId.toLowerCase().startsWith(term)
+    );
+  });
+}
+
+export type ChipSort = "created" | "name" | "table";
+
+/** Grouped tree mode: by source table or by the value of one tag key. */
+export type ChipGroupBy = { kind: "table" } | { kind: "tag"; key: string };
+
+const CHIP_SORTS: ChipSort[] = ["created", "name", "table"];
+
+/** Search and sort state, owned by the sidebar so its header can show it. */
+export interface ChipsView {
+  search: string;
+  /** True while the `/` prompt is taking keystrokes. */
+  searching: boolean;
+  sort: ChipSort;
+  /** Null for the flat list. */
+  groupBy: ChipGroupBy | null;
+}
+
+export const DEFAULT_CHIPS_VIEW: ChipsView = { search: "", searching: false, sort: "created", groupBy: null };
+
+/** "table" or "tag:<key>", so a tag key named "table" reads differently from table grouping. */
+export function groupByLabel(groupBy: ChipGroupBy): string {
+  return groupBy.kind === "table" ? "table" : `tag:${groupBy.key}`;
+}
+
+function sameGroupBy(a: ChipGroupBy | null, b: ChipGroupBy | null): boolean {
+  if (a === null || b === null) return a === b;
+  if (a.kind === "table" || b.kind === "table") return a.kind === b.kind;
+  return a.key === b.key;
+}
+
+/** Grouping choices for `g` to cycle through: flat, table, then each tag key. */
+function groupChoices(chips: ChipEntry[]): (ChipGroupBy | null)[] {
+  const keys = new Set<string>();
+  for (const chip of chips) {
+    for (const tag of chip.tags) keys.add(tag.slice(0, tag.indexOf("=")));
+  }
+  return [
+    null,
+    { kind: "table" },
+    ...[...keys].sort().map((key): ChipGroupBy => ({ kind: "tag", key })),
+  ];
+}
+
+function sortChips(chips: ChipEntry[], sort: ChipSort): ChipEntry[] {
+  const byName = (a: ChipEntry, b: ChipEntry) => a.name.localeCompare(b.name);
+  switch (sort) {
+    case "created":
+      return [...chips].sort((a, b) => a.createdAt - b.createdAt);
+    case "name":
+      return [...chips].sort(byName);
+    case "table":
+      return [...chips].sort((a, b) => a.table.localeCompare(b.table) || byName(a, b));
+  }
 }
 
 interface ChipsListProps {
@@ -23,6 +104,12 @@ interface ChipsListProps {
   onSelectChip: (chipId: string) => void;
   height: number;
   refreshKey?: number;
+  /** Only list chips matching this filter (see matchesFilter). */
+  filter?: string;
+  view: ChipsView;
+  onViewChange: (view: ChipsView) => void;
+  /** Called while the search prompt owns the keyboard. */
+  onInputActive?: (active: boolean) => void;
 }
 
 export function ChipsList({
@@ -33,8 +120,12 @@ export function ChipsList({
   onSelectChip,
   height,
   refreshKey,
+  filter,
+  view,
+  onViewChange,
+  onInputActive,
 }: ChipsListProps) {
-  const [chips, setChips] = useState<ChipEntry[]>([]);
+  const [allChips, setAllChips] = useState<ChipEntry[]>([]);
   const [loading, setLoading] = useState(true);
   const [cursor, setCursor] = useState(0);
   const [scrollOffset, setScrollOffset] = useState(0);
@@ -55,7 +146,7 @@ export function ChipsList({
         (c: Chip) => c.chip_id === c.sub_chip_id,
       );
       const uniqueIds = [...new Set(mainChips.map((c: Chip) => c.chip_id))];
-      setChips(uniqueIds.map((id) => {
+      setAllChips(uniqueIds.map((id) => {
         const meta = metaMap.get(id);
         const chips = index.chipsByChipId.get(id) ?? [];
         const tables = [...new Set(chips.map((c: Chip) => c.table_name))];
@@ -66,9 +157,13 @@ export function ChipsList({
           name: meta?.name ?? id.slice(0, 12),
           table: tables.join(", ") || "\u2014",
           created: meta ? formatDate(meta.created_at) : "\u2014",
+          createdAt: meta?.created_at ?? 0,
           subChipCount: subChipCount(id, index),
           partitionLabel: ps !== "\u2014" ? ps : null,
           tagLabel: ts !== "\u2014" ? ts : null,
+          tags: (index.tagsByChipId.get(id) ?? []).map((t) => `${t.key}=${t.value}`),
+          tables,
+          partitions: [...new Set(chips.filter((c: Chip) => c.partition_value).map((c: Chip) => c.partition_value))],
         };
       }));
       setLoading(false);
@@ -79,8 +174,66 @@ export function ChipsList({
     loadChips();
   }, [client, refreshKey]);
 
+  useEffect(() => {
+    if (!view.searching) return;
+    onInputActive?.(true);
+    return () => onInputActive?.(false);
+  }, [view.searching, onInputActive]);
+
+  // The profile's filter and the `/` search both apply
+  const chips = useMemo(() => {
+    let shown = allChips;
+    if (filter?.trim()) shown = shown.filter((c) => matchesFilter(c, filter));
+    if (view.search.trim()) shown = shown.filter((c) => matchesFilter(c, view.search));
+    return sortChips(shown, view.sort);
+  }, [allChips, filter, view.search, view.sort]);
+
+  const setSearch = (search: string, searching: boolean) => {
+    onViewChange({ ...view, search, searching });
+    setCursor(0);
+  };
+
   useInput((input, key) => {
-    if (!isFocused || chips.length === 0) return;
+    if (!isFocused) return;
+
+    if (view.searching) {
+      if (key.escape) {
+        setSearch("", false);
+      } else if (key.return) {
+        setSearch(view.search.trim(), false);
+      } else if (key.backspace || key.delete) {
+        setSearch(view.search.slice(0, -1), true);
+      } else if (key.upArrow) {
+        setCursor((c) => Math.max(0, c - 1));
+      } else if (key.downArrow) {
+        setCursor((c) => Math.min(chips.length - 1, c + 1));
+      } else if (input && !key.ctrl && !key.meta && !key.tab) {
+        setSearch(view.search + input, true);
+      }
+      return;
+    }
+
+    if (input === "/") {
+      setSearch(view.search, true);
+      return;
+    }
+    if (input === "o") {
+      const next = CHIP_SORTS[(CHIP_SORTS.indexOf(view.sort) + 1) % CHIP_SORTS.length]!;
+      onViewChange({ ...view, sort: next });
+      return;
+    }
+    if (input === "g") {
+      const choices = groupChoices(allChips);
+      const index = choices.findIndex((c) => sameGroupBy(c, view.groupBy));
+      onViewChange({ ...view, groupBy: choices[(index + 1) % choices.length]! });
+      return;
+    }
+    if (input === "r") {
+      loadChips();
+      return;
+    }
+    // The grouped tree handles its own navigation
+    if (view.groupBy || chips.length === 0) return;
 
     if (key.upArrow) {
       setCursor((c) => Math.max(0, c - 1));
@@ -97,8 +250,6 @@ export function ChipsList({
         checked.add(chipId);
       }
       onCheckedChange([...checked]);
-    } else if (input === "r") {
-      loadChips();
     }
   });
 
@@ -127,7 +278,27 @@ export function ChipsList({
   }
 
   if (chips.length === 0) {
-    return <Text color={brand.muted}>No chips</Text>;
+    const active = [filter?.trim(), view.search.trim()].filter(Boolean).join(" ");
+    return (
+      <Text color={brand.muted}>
+        {allChips.length > 0 ? `No chips match "${active}"` : "No chips"}
+      </Text>
+    );
+  }
+
+  if (view.groupBy) {
+    return (
+      <ChipGroupsTree
+        key={groupByLabel(view.groupBy)}
+        chips={chips}
+        groupBy={view.groupBy}
+        isFocused={isFocused}
+        checkedChipIds={checkedChipIds}
+        onCheckedChange={onCheckedChange}
+        onSelectChip={onSelectChip}
+        height={height}
+      />
+    );
   }
 
   const visible = chips.slice(scrollOffset, scrollOffset + maxVisible);
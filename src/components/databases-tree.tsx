@@ -16,9 +16,10 @@ interface DatabasesTreeProps {
   isFocused: boolean;
   onSelectTable: (databaseName: string, tableName: string) => void;
   height: number;
+  refreshKey?: number;
 }
 
-export function DatabasesTree({ client, isFocused, onSelectTable, height }: DatabasesTreeProps) {
+export function DatabasesTree({ client, isFocused, onSelectTable, height, refreshKey }: DatabasesTreeProps) {
   const [databases, setDatabases] = useState<DuckDBDatabase[]>([]);
   const [loading, setLoading] = useState(true);
   const [expanded, setExpanded] = useState<Set<string>>(new Set());
@@ -32,7 +33,7 @@ export function DatabasesTree({ client, isFocused, onSelectTable, height }: Data
       setDatabases(dbs.filter((d) => !d.internal));
       setLoading(false);
     }).catch(() => setLoading(false));
-  }, [client]);
+  }, [client, refreshKey]);
 
   // Build flat list of visible nodes
   const nodes: TreeNode[] = [];
@@ -6,6 +6,8 @@ import { brand } from "../theme.js";
 
 interface FilePathInputProps {
   onSubmit: (value: string) => void;
+  defaultValue?: string;
+  placeholder?: string;
 }
 
 function getCompletions(input: string): string[] {
@@ -36,9 +38,13 @@ function commonPrefix(strings: string[]): string {
   return prefix;
 }
 
-export function FilePathInput({ onSubmit }: FilePathInputProps) {
-  const [value, setValue] = useState("");
-  const [cursorPos, setCursorPos] = useState(0);
+export function FilePathInput({
+  onSubmit,
+  defaultValue = "",
+  placeholder = "/path/to/file.csv",
+}: FilePathInputProps) {
+  const [value, setValue] = useState(defaultValue);
+  const [cursorPos, setCursorPos] = useState(defaultValue.length);
   const [completions, setCompletions] = useState<string[]>([]);
 
   const handleTab = useCallback(() => {
@@ -118,7 +124,7 @@ export function FilePathInput({ onSubmit }: FilePathInputProps) {
         </Text>
         <Text color={brand.text}>{after}</Text>
         {value.length === 0 && (
-          <Text color={brand.muted}>/path/to/file.csv</Text>
+          <Text color={brand.muted}>{placeholder}</Text>
         )}
       </Box>
       {completions.length > 0 && (
@@ -0,0 +1,36 @@
+import React, { useState, useEffect } from "react";
+import { Box, Text } from "ink";
+import { brand } from "../theme.js";
+import type { HealthState } from "../hooks/use-health-check.js";
+
+interface HealthBannerProps {
+  health: HealthState;
+  url: string;
+  width: number;
+}
+
+/** One-line warning shown while the engine is unreachable, with a retry countdown. */
+export function HealthBanner({ health, url, width }: HealthBannerProps) {
+  const [now, setNow] = useState(Date.now());
+
+  // Tick once a second so the countdown stays current
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const retryIn = health.retryAt !== null ? Math.max(0, Math.ceil((health.retryAt - now) / 1000)) : null;
+
+  return (
+    <Box width={width} paddingX={1}>
+      <Text color={brand.error} wrap="truncate">
+        ⚠ Engine unavailable at {url}: {health.error}
+        <Text color={brand.muted}>
+          {" — "}
+          {retryIn ? `retrying in ${retryIn}s` : "retrying…"}
+          {health.failures > 1 ? ` (attempt ${health.failures + 1})` : ""}
+        </Text>
+      </Text>
+    </Box>
+  );
+}
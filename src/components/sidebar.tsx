@@ -1,9 +1,9 @@
-import React from "react";
+import React, { useState } from "react";
 import { Box, Text } from "ink";
 import type { DatalatheClient } from "@datalathe/client";
 import type { Panel } from "../hooks/use-panel-focus.js";
 import { DatabasesTree } from "./databases-tree.js";
-import { ChipsList } from "./chips-list.js";
+import { ChipsList, DEFAULT_CHIPS_VIEW, groupByLabel, type ChipsView } from "./chips-list.js";
 import { brand } from "../theme.js";
 
 interface SidebarProps {
@@ -16,6 +16,9 @@ interface SidebarProps {
   onSelectTable: (databaseName: string, tableName: string) => void;
   onSelectChip: (chipId: string) => void;
   refreshKey?: number;
+  /** Chip filter from the active connection profile. */
+  chipFilter?: string;
+  onInputActive?: (active: boolean) => void;
 }
 
 export function Sidebar({
@@ -28,7 +31,10 @@ export function Sidebar({
   onSelectTable,
   onSelectChip,
   refreshKey,
+  chipFilter,
+  onInputActive,
 }: SidebarProps) {
+  const [chipsView, setChipsView] = useState<ChipsView>(DEFAULT_CHIPS_VIEW);
   const dbFocused = activePanel === "databases";
   const chipsFocused = activePanel === "chips";
 
@@ -65,6 +71,7 @@ export function Sidebar({
             isFocused={dbFocused}
             onSelectTable={onSelectTable}
             height={dbHeight}
+            refreshKey={refreshKey}
           />
         </Box>
       </Box>
@@ -81,9 +88,35 @@ export function Sidebar({
           <Text color={chipsFocused ? brand.cyan : brand.violet} bold>
             Chips
           </Text>
-          {chipsFocused && (
+          {chipFilter && (
+            <Text color={brand.muted}>
+              {" "}({chipFilter})
+            </Text>
+          )}
+          {(chipsView.searching || chipsView.search) && (
+            <Text color={chipsView.searching ? brand.cyan : brand.text}>
+              {" "}/{chipsView.search}
+              {chipsView.searching ? "▏" : ""}
+            </Text>
+          )}
+          {chipsView.sort !== DEFAULT_CHIPS_VIEW.sort && (
+            <Text color={brand.muted}>
+              {" "}by {chipsView.sort}
+            </Text>
+          )}
+          {chipsView.groupBy && (
+            <Text color={brand.muted}>
+              {" "}grouped:{groupByLabel(chipsView.groupBy)}
+            </Text>
+          )}
+          {chipsFocused && !chipsView.searching && (
+            <Text color={brand.muted} dimColor>
+              {" "}␣:check {chipsView.groupBy ? "⏎:open/fold" : "⏎:open"} /:search o:sort g:group r:refresh
+            </Text>
+          )}
+          {chipsView.searching && (
             <Text color={brand.muted} dimColor>
-              {" "}␣:check ⏎:open r:refresh
+              {" "}⏎:keep Esc:clear
             </Text>
           )}
         </Box>
@@ -96,6 +129,10 @@ export function Sidebar({
             onSelectChip={onSelectChip}
             height={chipsHeight}
             refreshKey={refreshKey}
+            filter={chipFilter}
+            view={chipsView}
+            onViewChange={setChipsView}
+            onInputActive={onInputActive}
           />
         </Box>
       </Box>
@@ -0,0 +1,349 @@
+import React, { useState, useEffect, useRef } from "react";
+import { Box, Text, useInput } from "ink";
+import { brand } from "../theme.js";
+import { wordStart, commonCompletionPrefix, type Completion } from "../utils/sql-completion.js";
+
+const TAB = "  ";
+const POPUP_SIZE = 6;
+
+const KIND_COLORS: Record<Completion["kind"], string> = {
+  table: brand.violet,
+  column: brand.cyan,
+  keyword: brand.muted,
+  function: brand.success,
+};
+
+interface SqlEditorProps {
+  /** Called with the full text on Ctrl+Enter. */
+  onSubmit: (value: string) => void;
+  onChange?: (value: string) => void;
+  defaultValue?: string;
+  placeholder?: string;
+  /** Previous queries, most recent first. Up on the first line recalls older entries. */
+  history?: string[];
+  /** Candidates for the word before the cursor; enables Tab completion. */
+  getCompletions?: (word: string) => Completion[];
+  /** Verb shown next to Ctrl+Enter in the hint line. Defaults to "run". */
+  submitLabel?: string;
+  /** Maximum number of lines rendered before the editor scrolls. */
+  maxLines?: number;
+  /** When false, keyboard input is ignored. Defaults to true. */
+  isActive?: boolean;
+}
+
+interface EditorState {
+  lines: string[];
+  row: number;
+  col: number;
+}
+
+function fromText(text: string): EditorState {
+  const lines = text.split("\n");
+  const row = lines.length - 1;
+  return { lines, row, col: lines[row]!.length };
+}
+
+/** Insert text (possibly multi-line) at the cursor. */
+function insertText(state: EditorState, text: string): EditorState {
+  const { lines, row, col } = state;
+  const line = lines[row]!;
+  const parts = text.split("\n");
+  const before = line.slice(0, col);
+  const after = line.slice(col);
+  if (parts.length === 1) {
+    const next = [...lines];
+    next[row] = before + text + after;
+    return { lines: next, row, col: col + text.length };
+  }
+  const inserted = [before + parts[0], ...parts.slice(1, -1), parts[parts.length - 1]! + after];
+  const next = [...lines.slice(0, row), ...inserted, ...lines.slice(row + 1)];
+  const lastRow = row + parts.length - 1;
+  return { lines: next, row: lastRow, col: parts[parts.length - 1]!.length };
+}
+
+/** Start a new line, carrying over the current line's indentation. */
+function newline(state: EditorState): EditorState {
+  const indent = /^\s*/.exec(state.lines[state.row]!.slice(0, state.col))![0];
+  return insertText(state, "\n" + indent);
+}
+
+/** Replace the text between `start` and the cursor on the current line. */
+function replaceWord(state: EditorState, start: number, text: string): EditorState {
+  const { lines, row, col } = state;
+  const line = lines[row]!;
+  const next = [...lines];
+  next[row] = line.slice(0, start) + text + line.slice(col);
+  return { lines: next, row, col: start + text.length };
+}
+
+function backspace(state: EditorState): EditorState {
+  const { lines, row, col } = state;
+  if (col > 0) {
+    const line = lines[row]!;
+    const next = [...lines];
+    next[row] = line.slice(0, col - 1) + line.slice(col);
+    return { lines: next, row, col: col - 1 };
+  }
+  if (row === 0) return state;
+  const prev = lines[row - 1]!;
+  const next = [...lines];
+  next.splice(row - 1, 2, prev + lines[row]!);
+  return { lines: next, row: row - 1, col: prev.length };
+}
+
+function moveVertical(state: EditorState, delta: number): EditorState {
+  const row = Math.max(0, Math.min(state.lines.length - 1, state.row + delta));
+  return { ...state, row, col: Math.min(state.col, state.lines[row]!.length) };
+}
+
+function moveHorizontal(state: EditorState, delta: number): EditorState {
+  const { lines, row, col } = state;
+  if (delta < 0) {
+    if (col > 0) return { ...state, col: col - 1 };
+    if (row > 0) return { ...state, row: row - 1, col: lines[row - 1]!.length };
+    return state;
+  }
+  if (col < lines[row]!.length) return { ...state, col: col + 1 };
+  if (row < lines.length - 1) return { ...state, row: row + 1, col: 0 };
+  return state;
+}
+
+/**
+ * Multi-line SQL editor. Enter inserts a newline; Ctrl+Enter submits.
+ * Pasted text containing newlines is inserted verbatim rather than submitted.
+ */
+export function SqlEditor({
+  onSubmit,
+  onChange,
+  defaultValue = "",
+  placeholder = "SELECT * FROM ...",
+  submitLabel = "run",
+  history = [],
+  getCompletions,
+  maxLines = 10,
+  isActive = true,
+}: SqlEditorProps) {
+  const [state, setState] = useState<EditorState>(() => fromText(defaultValue));
+  const [scrollOffset, setScrollOffset] = useState(0);
+  // -1 means the user's own draft is showing rather than a history entry
+  const [recallIndex, setRecallIndex] = useState(-1);
+  const draftRef = useRef("");
+  const [popup, setPopup] = useState<{ items: Completion[]; selected: number } | null>(null);
+
+  const value = state.lines.join("\n");
+
+  useEffect(() => {
+    onChange?.(value);
+  }, [value]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const currentWord = () => {
+    const line = state.lines[state.row]!;
+    const start = wordStart(line, state.col);
+    return { start, word: line.slice(start, state.col) };
+  };
+
+  const acceptCompletion = (completion: Completion) => {
+    const { start } = currentWord();
+    setState((s) => replaceWord(s, start, completion.text));
+    setPopup(null);
+  };
+
+  const handleTab = () => {
+    const { start, word } = currentWord();
+    if (!getCompletions || !word) {
+      setState((s) => insertText(s, TAB));
+      return;
+    }
+    const matches = getCompletions(word);
+    if (matches.length === 1) {
+      acceptCompletion(matches[0]!);
+    } else if (matches.length > 1) {
+      const shared = commonCompletionPrefix(matches.map((m) => m.text));
+      if (shared.length > word.length) {
+        setState((s) => replaceWord(s, start, shared));
+      }
+      setPopup({ items: matches, selected: 0 });
+    }
+  };
+
+  useInput((input, key) => {
+    // While the completion popup is open, arrows pick and Tab/Enter accept
+    if (popup) {
+      if (key.upArrow || key.downArrow) {
+        const delta = key.upArrow ? -1 : 1;
+        const n = popup.items.length;
+        setPopup({ ...popup, selected: (popup.selected + delta + n) % n });
+        return;
+      }
+      if (key.tab || key.return) {
+        acceptCompletion(popup.items[popup.selected]!);
+        return;
+      }
+      setPopup(null);
+      if (key.escape) return;
+    }
+
+    // Most terminals send Ctrl+Enter as a bare line feed; the kitty
+    // keyboard protocol reports it as return with the ctrl modifier.
+    if (input === "\n" || (key.return && key.ctrl)) {
+      onSubmit(value);
+      return;
+    }
+
+    if (key.return) {
+      setState(newline);
+      return;
+    }
+
+    if (key.tab) {
+      handleTab();
+      return;
+    }
+
+    if (key.backspace || key.delete) {
+      setState(backspace);
+      return;
+    }
+
+    if (key.upArrow) {
+      if (state.row === 0 && recallIndex < history.length - 1) {
+        if (recallIndex === -1) draftRef.current = value;
+        const next = recallIndex + 1;
+        setRecallIndex(next);
+        setState(fromText(history[next]!));
+      } else {
+        setState((s) => moveVertical(s, -1));
+      }
+      return;
+    }
+    if (key.downArrow) {
+      if (state.row === state.lines.length - 1 && recallIndex >= 0) {
+        const next = recallIndex - 1;
+        setRecallIndex(next);
+        setState(fromText(next === -1 ? draftRef.current : history[next]!));
+      } else {
+        setState((s) => moveVertical(s, 1));
+      }
+      return;
+    }
+    if (key.leftArrow) {
+      setState((s) => moveHorizontal(s, -1));
+      return;
+    }
+    if (key.rightArrow) {
+      setState((s) => moveHorizontal(s, 1));
+      return;
+    }
+    if (key.home) {
+      setState((s) => ({ ...s, col: 0 }));
+      return;
+    }
+    if (key.end) {
+      setState((s) => ({ ...s, col: s.lines[s.row]!.length }));
+      return;
+    }
+
+    // Ignore control keys
+    if (key.ctrl || key.meta || key.escape || key.pageUp || key.pageDown) {
+      return;
+    }
+
+    if (input) {
+      // Pasted text arrives as a single chunk; normalize its line endings
+      const text = input.replace(/\r\n?/g, "\n").replace(/\t/g, TAB);
+      setState((s) => insertText(s, text));
+    }
+  }, { isActive });
+
+  // Keep the cursor row inside the visible window
+  useEffect(() => {
+    setScrollOffset((prev) => {
+      if (state.row >= prev + maxLines) return state.row - maxLines + 1;
+      if (state.row < prev) return state.row;
+      return prev;
+    });
+  }, [state.row, maxLines]);
+
+  const gutterWidth = String(state.lines.length).length;
+  const visible = state.lines.slice(scrollOffset, scrollOffset + maxLines);
+  const isEmpty = state.lines.length === 1 && state.lines[0] === "";
+  const hiddenAbove = scrollOffset;
+  const hiddenBelow = Math.max(0, state.lines.length - scrollOffset - maxLines);
+
+  return (
+    <Box flexDirection="column">
+      {hiddenAbove > 0 && (
+        <Text color={brand.muted} dimColor>
+          {" ".repeat(gutterWidth)} ↑ {hiddenAbove} more
+        </Text>
+      )}
+      {visible.map((line, i) => {
+        const row = scrollOffset + i;
+        const isCursorRow = isActive && row === state.row;
+        const gutter = String(row + 1).padStart(gutterWidth);
+
+        if (!isCursorRow) {
+          return (
+            <Text key={row}>
+              <Text color={brand.border}>{gutter} │ </Text>
+              <Text color={brand.text}>{line}</Text>
+              {isEmpty && <Text color={brand.muted}>{placeholder}</Text>}
+            </Text>
+          );
+        }
+
+        const before = line.slice(0, state.col);
+        const cursorChar = line[state.col] ?? " ";
+        const after = line.slice(state.col + 1);
+        return (
+          <Text key={row}>
+            <Text color={brand.violet}>{gutter} │ </Text>
+            <Text color={brand.text}>{before}</Text>
+            <Text backgroundColor={brand.violet} color={brand.text}>
+              {cursorChar}
+            </Text>
+            <Text color={brand.text}>{after}</Text>
+            {isEmpty && <Text color={brand.muted}>{placeholder}</Text>}
+          </Text>
+        );
+      })}
+      {popup && (
+        <Box flexDirection="column" marginLeft={gutterWidth + 3}>
+          {popup.items
+            .slice(
+              Math.max(0, Math.min(popup.selected - POPUP_SIZE + 1, popup.items.length - POPUP_SIZE)),
+            )
+            .slice(0, POPUP_SIZE)
+            .map((item) => {
+              const isSelected = item === popup.items[popup.selected];
+              return (
+                <Text key={`${item.kind}-${item.text}`}>
+                  <Text color={isSelected ? brand.cyan : brand.muted}>{isSelected ? "› " : "  "}</Text>
+                  <Text color={isSelected ? brand.cyan : brand.text}>{item.text}</Text>
+                  <Text color={KIND_COLORS[item.kind]}>{" "}{item.kind}</Text>
+                  {item.detail && <Text color={brand.muted} dimColor>{" "}{item.detail}</Text>}
+                </Text>
+              );
+            })}
+          {popup.items.length > POPUP_SIZE && (
+            <Text color={brand.muted} dimColor>
+              {"  "}{popup.selected + 1}/{popup.items.length}
+            </Text>
+          )}
+        </Box>
+      )}
+      {hiddenBelow > 0 && (
+        <Text color={brand.muted} dimColor>
+          {" ".repeat(gutterWidth)} ↓ {hiddenBelow} more
+        </Text>
+      )}
+      <Text color={brand.muted} dimColor>
+        {state.lines.length} line{state.lines.length !== 1 ? "s" : ""}
+        {recallIndex >= 0 && ` · history ${recallIndex + 1}/${history.length}`}
+        {" · "}Enter:newline  Ctrl+Enter:{submitLabel}
+        {history.length > 0 && "  ↑↓:history"}
+        {getCompletions && "  Tab:complete"}
+      </Text>
+    </Box>
+  );
+}
@@ -0,0 +1,106 @@
+import React, { useState, useEffect } from "react";
+import { Box, Text, useInput } from "ink";
+import type { Chip } from "@datalathe/client";
+import { fit } from "../utils/chip-options.js";
+import { brand } from "../theme.js";
+
+/** Rows shown at once; the list scrolls beyond this. */
+const MAX_VISIBLE = 10;
+
+interface SubChipListProps {
+  /** Sub-chips of one main chip (rows where chip_id !== sub_chip_id). */
+  subChips: Chip[];
+  /** Browsing: shows the cursor and takes keys. Otherwise a read-only summary. */
+  isActive: boolean;
+  /** Query the given sub-chip IDs. */
+  onQuery: (subChipIds: string[]) => void;
+  onClose: () => void;
+}
+
+/** Sub-chips with their table, partition and creation time; pick partitions to query. */
+export function SubChipList({ subChips, isActive, onQuery, onClose }: SubChipListProps) {
+  const [cursor, setCursor] = useState(0);
+  const [scrollOffset, setScrollOffset] = useState(0);
+  const [checked, setChecked] = useState<Set<string>>(new Set());
+
+  useInput((input, key) => {
+    const current = subChips[cursor];
+    if (key.escape) {
+      onClose();
+    } else if (key.upArrow) {
+      setCursor((c) => Math.max(0, c - 1));
+    } else if (key.downArrow) {
+      setCursor((c) => Math.min(subChips.length - 1, c + 1));
+    } else if (input === " " && current) {
+      setChecked((prev) => {
+        const next = new Set(prev);
+        if (next.has(current.sub_chip_id)) next.delete(current.sub_chip_id);
+        else next.add(current.sub_chip_id);
+        return next;
+      });
+    } else if (input === "a") {
+      setChecked((prev) =>
+        prev.size === subChips.length ? new Set() : new Set(subChips.map((c) => c.sub_chip_id)),
+      );
+    } else if ((key.return || input === "s") && current) {
+      // Query the checked partitions, or just the one under the cursor
+      const ids = checked.size > 0
+        ? subChips.filter((c) => checked.has(c.sub_chip_id)).map((c) => c.sub_chip_id)
+        : [current.sub_chip_id];
+      onQuery(ids);
+    }
+  }, { isActive });
+
+  useEffect(() => {
+    setScrollOffset((prev) => {
+      if (cursor >= prev + MAX_VISIBLE) return cursor - MAX_VISIBLE + 1;
+      if (cursor < prev) return cursor;
+      return prev;
+    });
+  }, [cursor]);
+
+  const tableW = Math.min(30, Math.max(5, ...subChips.map((c) => (c.table_name ?? "").length)));
+  const partitionW = Math.min(24, Math.max(9, ...subChips.map((c) => (c.partition_value ?? "").length)));
+  const visible = subChips.slice(scrollOffset, scrollOffset + MAX_VISIBLE);
+  const canScrollUp = scrollOffset > 0;
+  const canScrollDown = scrollOffset + MAX_VISIBLE < subChips.length;
+
+  return (
+    <Box flexDirection="column">
+      <Text color={brand.cyan} bold>
+        Sub-chips ({subChips.length})
+        {checked.size > 0 && <Text color={brand.success}> {checked.size} checked</Text>}
+      </Text>
+      <Text color={brand.muted}>
+        {"    "}
+        {fit("Table", tableW)}  {fit("Partition", partitionW)}  Created
+      </Text>
+      {visible.map((chip, i) => {
+        const isCursor = isActive && scrollOffset + i === cursor;
+        const isChecked = checked.has(chip.sub_chip_id);
+        return (
+          <Text key={chip.sub_chip_id}>
+            <Text color={isCursor ? brand.cyan : brand.muted}>{isCursor ? "> " : "  "}</Text>
+            <Text color={isChecked ? brand.success : brand.muted}>{isChecked ? "☑" : "☐"} </Text>
+            <Text color={isCursor ? brand.cyan : brand.violet}>{fit(chip.table_name ?? "—", tableW)}</Text>
+            <Text color={brand.text}>{"  "}{fit(chip.partition_value || "—", partitionW)}</Text>
+            <Text color={brand.muted}>
+              {"  "}
+              {chip.created_at ? new Date(chip.created_at * 1000).toLocaleString() : "—"}
+            </Text>
+          </Text>
+        );
+      })}
+      {(canScrollUp || canScrollDown) && (
+        <Text color={brand.muted}>
+          {" "}{canScrollUp ? "↑" : " "} {scrollOffset + 1}–{Math.min(scrollOffset + MAX_VISIBLE, subChips.length)}/{subChips.length} {canScrollDown ? "↓" : " "}
+        </Text>
+      )}
+      {isActive && (
+        <Text color={brand.muted} dimColor>
+          ↑↓:move  ␣:check  a:all  ⏎/s:query {checked.size > 0 ? `${checked.size} checked` : "this partition"}  Esc:done
+        </Text>
+      )}
+    </Box>
+  );
+}
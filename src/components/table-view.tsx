@@ -1,12 +1,36 @@
-import React, { useState } from "react";
+import React, { useState, useEffect, useMemo } from "react";
 import { Box, Text, useInput } from "ink";
+import { useClipboard } from "../hooks/use-clipboard.js";
 import { brand } from "../theme.js";
+import { toText } from "../utils/export.js";
+import {
+  sortRows,
+  applyFilters,
+  parseFilter,
+  describeFilter,
+  inspectValue,
+  rowJson,
+  recordLines,
+  wrapLines,
+  columnWidths,
+  rowWindow,
+  type SortState,
+  type ColumnFilter,
+} from "../utils/table-data.js";
+import type { SchemaField } from "@datalathe/client";
 
 const MAX_COL_WIDTH = 30;
 const SCROLL_STEP = 8;
+const SEPARATOR = " │ ";
+/** Rows inspected when sizing columns. */
+const WIDTH_SAMPLE_SIZE = 500;
+
+type InspectMode = "cell" | "row";
 
 interface TableViewProps {
   data: Record<string, unknown>[];
+  /** Column types from the result schema; makes sorting and filtering type-aware. */
+  schema?: SchemaField[];
   /** Available character width for the table. */
   viewWidth?: number;
   /** Available row count for the table (header + separator + data rows + footer). */
@@ -14,6 +38,11 @@ interface TableViewProps {
   emptyMessage?: string;
   /** When false, keyboard input is ignored (e.g. panel not focused). Defaults to true. */
   isActive?: boolean;
+  /**
+   * Called while the table owns the keyboard (filter prompt, cell cursor or
+   * inspector), so parents can suspend their own single-key shortcuts.
+   */
+  onInputActive?: (active: boolean) => void;
 }
 
 function truncate(s: string, max: number): string {
@@ -22,58 +51,93 @@ function truncate(s: string, max: number): string {
 
 export function TableView({
   data,
+  schema,
   viewWidth = 80,
   viewHeight = 20,
   emptyMessage = "No data",
   isActive = true,
+  onInputActive,
 }: TableViewProps) {
   const [scrollX, setScrollX] = useState(0);
   const [scrollY, setScrollY] = useState(0);
+  const [selectedCol, setSelectedCol] = useState(0);
+  const [sort, setSort] = useState<SortState | null>(null);
+  const [filters, setFilters] = useState<ColumnFilter[]>([]);
+  const [filterInput, setFilterInput] = useState<string | null>(null);
+  const [cellMode, setCellMode] = useState(false);
+  const [cursorRow, setCursorRow] = useState(0);
+  const [inspect, setInspect] = useState<InspectMode | null>(null);
+  const [inspectScroll, setInspectScroll] = useState(0);
+  const { copyStatus, copy } = useClipboard();
 
-  if (data.length === 0) {
-    return (
-      <Box paddingY={1}>
-        <Text color={brand.muted}>{emptyMessage}</Text>
-      </Box>
-    );
-  }
+  const prompting = filterInput !== null;
+  const capturing = prompting || cellMode;
+  useEffect(() => {
+    onInputActive?.(capturing);
+  }, [capturing, onInputActive]);
+  useEffect(() => () => onInputActive?.(false), [onInputActive]);
 
-  const columns = Object.keys(data[0]!);
+  const columns = useMemo(() => (data.length > 0 ? Object.keys(data[0]!) : []), [data]);
+  const types = useMemo(
+    () => new Map<string, string>((schema ?? []).map((f) => [f.name, f.data_type])),
+    [schema],
+  );
 
-  // Compute column widths
-  const widths = columns.map((col) => {
-    let max = col.length;
-    for (const row of data) {
-      const val = String(row[col] ?? "");
-      if (val.length > max) max = val.length;
-    }
-    return Math.min(max, MAX_COL_WIDTH);
-  });
+  const rows = useMemo(() => {
+    const filtered = applyFilters(data, filters, types);
+    return sort ? sortRows(filtered, sort, types.get(sort.column)) : filtered;
+  }, [data, filters, sort, types]);
+
+  const headerLabel = (col: string) =>
+    sort?.column === col ? `${col} ${sort.direction === "asc" ? "↑" : "↓"}` : col;
+
+  // Column widths come from a sample of rows so large results don't need a full scan
+  const widths = useMemo(
+    () => columnWidths(data, columns, headerLabel, WIDTH_SAMPLE_SIZE, MAX_COL_WIDTH),
+    [data, columns, sort],
+  );
+
+  // Character offset of each column within a full-width row string
+  const colStarts: number[] = [];
+  widths.reduce((offset, w) => {
+    colStarts.push(offset);
+    return offset + w + SEPARATOR.length;
+  }, 0);
 
   const pad = (s: string, w: number) => s + " ".repeat(Math.max(0, w - s.length));
 
   // Build full-width row strings
   const headerStr = columns
-    .map((col, i) => pad(truncate(col, widths[i]!), widths[i]!))
-    .join(" │ ");
+    .map((col, i) => pad(truncate(headerLabel(col), widths[i]!), widths[i]!))
+    .join(SEPARATOR);
   const sepStr = widths.map((w) => "─".repeat(w)).join("─┼─");
 
-  const rowStrings = data.map((row) =>
-    columns
-      .map((col, ci) => {
-        const val = String(row[col] ?? "");
-        return pad(truncate(val, widths[ci]!), widths[ci]!);
-      })
-      .join(" │ "),
-  );
+  // Formatted rows are cached per row object until the column widths change
+  const rowCache = useMemo(() => new WeakMap<Record<string, unknown>, string>(), [columns, widths]);
+  const formatRow = (row: Record<string, unknown>): string => {
+    let line = rowCache.get(row);
+    if (line === undefined) {
+      line = columns
+        .map((col, ci) => {
+          const val = toText(row[col]).replace(/\r?\n/g, " ");
+          return pad(truncate(val, widths[ci]!), widths[ci]!);
+        })
+        .join(SEPARATOR);
+      rowCache.set(row, line);
+    }
+    return line;
+  };
 
   const totalWidth = headerStr.length;
 
-  // Pagination: reserve lines for header(1) + sep(1) + footer(1) + status(1) = 4
-  const pageSize = Math.max(1, viewHeight - 4);
-  const maxScrollY = Math.max(0, data.length - pageSize);
-  const clampedY = Math.min(scrollY, maxScrollY);
-  const visibleRows = rowStrings.slice(clampedY, clampedY + pageSize);
+  // Pagination: reserve lines for header(1) + sep(1) + footer(1) + status(1) = 4,
+  // plus one for the sort/filter line when it is shown
+  const hasViewState = sort !== null || filters.length > 0;
+  const pageSize = Math.max(1, viewHeight - 4 - (hasViewState ? 1 : 0));
+  const maxScrollY = Math.max(0, rows.length - pageSize);
+  // Only the visible window is formatted
+  const { start: clampedY, rows: windowRows } = rowWindow(rows, scrollY, pageSize);
+  const visibleRows = windowRows.map(formatRow);
 
   // Horizontal: clamp scrollX
   const maxScrollX = Math.max(0, totalWidth - viewWidth);
@@ -85,8 +149,142 @@ export function TableView({
     return sliced;
   };
 
-  useInput((_input, key) => {
-    if (key.leftArrow) {
+  const colIndex = Math.min(selectedCol, columns.length - 1);
+  const activeCol = columns[colIndex];
+  const cursor = Math.min(cursorRow, Math.max(0, rows.length - 1));
+  const cursorRowData = rows[cursor];
+
+  // Inspector content, wrapped to the view width
+  const inspectLines = useMemo(() => {
+    if (!inspect || !cursorRowData || !activeCol) return [];
+    const lines =
+      inspect === "cell"
+        ? inspectValue(cursorRowData[activeCol], types.get(activeCol)).split("\n")
+        : recordLines(cursorRowData, columns, types);
+    return wrapLines(lines, viewWidth);
+  }, [inspect, cursorRowData, activeCol, types, viewWidth]);
+  // Title(1) + footer(1) + status(1)
+  const inspectHeight = Math.max(1, viewHeight - 3);
+  const maxInspectScroll = Math.max(0, inspectLines.length - inspectHeight);
+
+  const selectColumn = (index: number) => {
+    const next = Math.max(0, Math.min(columns.length - 1, index));
+    setSelectedCol(next);
+    // Pan so the selected column is fully visible
+    const start = colStarts[next]!;
+    const end = start + widths[next]!;
+    setScrollX((x) => {
+      const cur = Math.min(x, maxScrollX);
+      if (start < cur) return start;
+      if (end > cur + viewWidth) return Math.min(maxScrollX, end - viewWidth);
+      return cur;
+    });
+  };
+
+  const moveCursor = (row: number) => {
+    const next = Math.max(0, Math.min(rows.length - 1, row));
+    setCursorRow(next);
+    // Scroll so the cursor row stays on screen
+    setScrollY((y) => {
+      const cur = Math.min(y, maxScrollY);
+      if (next < cur) return next;
+      if (next >= cur + pageSize) return next - pageSize + 1;
+      return cur;
+    });
+  };
+
+  const resetRows = () => {
+    setScrollY(0);
+    setCursorRow(0);
+  };
+
+  const applyFilterInput = (expr: string) => {
+    if (!activeCol) return;
+    const parsed = parseFilter(activeCol, expr);
+    setFilters((prev) => {
+      const others = prev.filter((f) => f.column !== activeCol);
+      return parsed ? [...others, parsed] : others;
+    });
+    resetRows();
+  };
+
+  const copyCell = () => {
+    if (cursorRowData && activeCol) {
+      copy(inspectValue(cursorRowData[activeCol], types.get(activeCol)), "cell");
+    }
+  };
+
+  const copyRow = () => {
+    if (cursorRowData) copy(rowJson(cursorRowData, columns, types), "row");
+  };
+
+  const openInspector = (mode: InspectMode) => {
+    if (!cursorRowData) return;
+    setInspect(mode);
+    setInspectScroll(0);
+  };
+
+  useInput((input, key) => {
+    if (prompting) {
+      if (key.escape) {
+        setFilterInput(null);
+      } else if (key.return) {
+        applyFilterInput(filterInput);
+        setFilterInput(null);
+      } else if (key.backspace || key.delete) {
+        setFilterInput((s) => (s ?? "").slice(0, -1));
+      } else if (input && !key.ctrl && !key.meta && !key.tab) {
+        setFilterInput((s) => (s ?? "") + input);
+      }
+      return;
+    }
+
+    if (inspect) {
+      if (key.escape || key.return) {
+        setInspect(null);
+      } else if (key.tab) {
+        setInspect((m) => (m === "cell" ? "row" : "cell"));
+        setInspectScroll(0);
+      } else if (key.upArrow) {
+        setInspectScroll((s) => Math.max(0, s - 1));
+      } else if (key.downArrow) {
+        setInspectScroll((s) => Math.min(maxInspectScroll, s + 1));
+      } else if (key.pageUp) {
+        setInspectScroll((s) => Math.max(0, s - inspectHeight));
+      } else if (key.pageDown) {
+        setInspectScroll((s) => Math.min(maxInspectScroll, s + inspectHeight));
+      } else if (input === "y") {
+        if (inspect === "cell") copyCell();
+        else copyRow();
+      }
+      return;
+    }
+
+    if (cellMode) {
+      if (key.escape || input === "v") {
+        setCellMode(false);
+      } else if (key.leftArrow) {
+        selectColumn(selectedCol - 1);
+      } else if (key.rightArrow) {
+        selectColumn(selectedCol + 1);
+      } else if (key.upArrow) {
+        moveCursor(cursor - 1);
+      } else if (key.downArrow) {
+        moveCursor(cursor + 1);
+      } else if (key.pageUp) {
+        moveCursor(cursor - pageSize);
+      } else if (key.pageDown) {
+        moveCursor(cursor + pageSize);
+      } else if (key.return) {
+        openInspector("cell");
+      } else if (input === "r") {
+        openInspector("row");
+      } else if (input === "y") {
+        copyCell();
+      } else if (input === "Y") {
+        copyRow();
+      }
+    } else if (key.leftArrow) {
       setScrollX((x) => Math.max(0, x - SCROLL_STEP));
     } else if (key.rightArrow) {
       setScrollX((x) => Math.min(maxScrollX, x + SCROLL_STEP));
@@ -98,43 +296,166 @@ export function TableView({
       setScrollY((y) => Math.max(0, y - pageSize));
     } else if (key.pageDown) {
       setScrollY((y) => Math.min(maxScrollY, y + pageSize));
+    } else if (input === "v" && rows.length > 0) {
+      // Start the cursor on the first visible row
+      setCellMode(true);
+      setCursorRow(clampedY);
+      selectColumn(selectedCol);
+    }
+
+    if (input === "<" || input === ",") {
+      selectColumn(selectedCol - 1);
+    } else if (input === ">" || input === ".") {
+      selectColumn(selectedCol + 1);
+    } else if (input === "s" && activeCol) {
+      // Cycle ascending → descending → unsorted
+      setSort((prev) => {
+        if (prev?.column !== activeCol) return { column: activeCol, direction: "asc" };
+        return prev.direction === "asc" ? { column: activeCol, direction: "desc" } : null;
+      });
+      resetRows();
+    } else if (input === "f" && activeCol) {
+      setFilterInput("");
+    } else if (input === "x" && hasViewState) {
+      setSort(null);
+      setFilters([]);
+      resetRows();
     }
-  }, { isActive });
+  }, { isActive: isActive && data.length > 0 });
+
+  if (data.length === 0) {
+    return (
+      <Box paddingY={1}>
+        <Text color={brand.muted}>{emptyMessage}</Text>
+      </Box>
+    );
+  }
+
+  if (inspect && cursorRowData && activeCol) {
+    const scroll = Math.min(inspectScroll, maxInspectScroll);
+    const title =
+      inspect === "cell"
+        ? `${activeCol}${types.has(activeCol) ? ` (${types.get(activeCol)})` : ""} · row ${cursor + 1}`
+        : `Row ${cursor + 1} of ${rows.length}`;
+    return (
+      <Box flexDirection="column">
+        <Text wrap="truncate" color={brand.cyan} bold>
+          {title}
+        </Text>
+        {inspectLines.slice(scroll, scroll + inspectHeight).map((line, i) => (
+          <Text key={scroll + i} color={brand.text}>
+            {line || " "}
+          </Text>
+        ))}
+        <Text color={brand.muted}>
+          {inspectLines.length > inspectHeight
+            ? `lines ${scroll + 1}–${Math.min(scroll + inspectHeight, inspectLines.length)} of ${inspectLines.length}`
+            : `${inspectLines.length} line${inspectLines.length !== 1 ? "s" : ""}`}
+          {copyStatus && (
+            <Text color={copyStatus.ok ? brand.success : brand.error}>{"  "}{copyStatus.message}</Text>
+          )}
+        </Text>
+        <Text color={brand.muted} dimColor>
+          {`↑↓:scroll  Tab:${inspect === "cell" ? "row record" : "cell value"}  y:copy ${inspect}  Esc:close`}
+        </Text>
+      </Box>
+    );
+  }
+
+  // Split a line around the selected column so that column can be highlighted
+  const winEnd = clampedX + viewWidth;
+  const selStart = colStarts[colIndex]!;
+  const selEnd = selStart + widths[colIndex]!;
+  const hlStart = Math.max(clampedX, Math.min(selStart, winEnd));
+  const hlEnd = Math.max(hlStart, Math.min(selEnd, winEnd));
 
   const page = Math.floor(clampedY / pageSize) + 1;
-  const totalPages = Math.ceil(data.length / pageSize);
+  const totalPages = Math.ceil(rows.length / pageSize);
   const colInfo = `${columns.length} cols`;
-  const rowInfo = `${data.length} rows`;
+  const rowInfo = rows.length !== data.length ? `${rows.length}/${data.length} rows` : `${data.length} rows`;
   const pageInfo = totalPages > 1 ? `pg ${page}/${totalPages}` : "";
   const hInfo = maxScrollX > 0 ? `col ◄►` : "";
-  const statusParts = [colInfo, rowInfo, pageInfo, hInfo].filter(Boolean);
+  const cellInfo = cellMode ? `cell ${cursor + 1}:${activeCol}` : "";
+  const statusParts = [colInfo, rowInfo, pageInfo, hInfo, cellInfo].filter(Boolean);
+  const viewParts = [
+    sort && `sort: ${sort.column} ${sort.direction === "asc" ? "↑" : "↓"}`,
+    filters.length > 0 && `filter: ${filters.map(describeFilter).join(", ")}`,
+  ].filter(Boolean);
 
   return (
     <Box flexDirection="column">
       <Text wrap="truncate" color={brand.cyan} bold>
-        {hSlice(headerStr)}
+        {headerStr.slice(clampedX, hlStart)}
+        <Text color={brand.text} backgroundColor={isActive ? brand.violet : undefined}>
+          {headerStr.slice(hlStart, hlEnd)}
+        </Text>
+        {headerStr.slice(hlEnd, winEnd)}
       </Text>
       <Text wrap="truncate" color={brand.border}>
         {hSlice(sepStr)}
       </Text>
-      {visibleRows.map((row, ri) => (
-        <Text wrap="truncate" key={clampedY + ri} color={brand.text}>
-          {hSlice(row)}
+      {rows.length === 0 && (
+        <Text color={brand.muted}>No rows match the current filters</Text>
+      )}
+      {visibleRows.map((row, ri) =>
+        cellMode && clampedY + ri === cursor ? (
+          <Text wrap="truncate" key={clampedY + ri} color={brand.cyan}>
+            {row.slice(clampedX, hlStart)}
+            <Text color={brand.text} backgroundColor={brand.violet}>
+              {row.slice(hlStart, hlEnd)}
+            </Text>
+            {row.slice(hlEnd, winEnd)}
+          </Text>
+        ) : (
+          <Text wrap="truncate" key={clampedY + ri} color={brand.text}>
+            {hSlice(row)}
+          </Text>
+        ),
+      )}
+      {hasViewState && (
+        <Text wrap="truncate" color={brand.violet}>
+          {viewParts.join(" · ")}
+          <Text color={brand.muted} dimColor>{"  x:clear"}</Text>
         </Text>
-      ))}
-      <Text color={brand.muted}>
-        {statusParts.join(" · ")}
-        {totalPages > 1 && (
+      )}
+      {prompting ? (
+        <Text wrap="truncate">
+          <Text color={brand.violet}>{`filter ${activeCol}❯ `}</Text>
+          <Text color={brand.text}>{filterInput}</Text>
+          <Text backgroundColor={brand.violet}> </Text>
           <Text color={brand.muted} dimColor>
-            {"  ↑↓:scroll  PgUp/PgDn:page"}
+            {"  text  =v  !=v  >v  <v  null  !null   ⏎:apply  Esc:cancel"}
           </Text>
-        )}
-        {maxScrollX > 0 && (
+        </Text>
+      ) : cellMode ? (
+        <Text wrap="truncate" color={brand.muted}>
+          {statusParts.join(" · ")}
+          {copyStatus ? (
+            <Text color={copyStatus.ok ? brand.success : brand.error}>{"  "}{copyStatus.message}</Text>
+          ) : (
+            <Text color={brand.muted} dimColor>
+              {"  ↑↓←→:move  ⏎:inspect  r:row  y:copy cell  Y:copy row  s:sort  f:filter  Esc:exit"}
+            </Text>
+          )}
+        </Text>
+      ) : (
+        <Text color={brand.muted}>
+          {statusParts.join(" · ")}
+          {totalPages > 1 && (
+            <Text color={brand.muted} dimColor>
+              {"  ↑↓:scroll  PgUp/PgDn:page"}
+            </Text>
+          )}
+          {maxScrollX > 0 && (
+            <Text color={brand.muted} dimColor>
+              {"  ←→:pan"}
+            </Text>
+          )}
           <Text color={brand.muted} dimColor>
-            {"  ←→:pan"}
+            {"  <>:column  s:sort  f:filter  v:cells"}
           </Text>
-        )}
-      </Text>
+        </Text>
+      )}
     </Box>
   );
 }
@@ -0,0 +1,160 @@
+import React, { useState, useEffect } from "react";
+import { Box, Text, useInput } from "ink";
+import { TextInput, Spinner } from "@inkjs/ui";
+import type { ChipTag } from "@datalathe/client";
+import { useClient } from "../hooks/use-client.js";
+import { parseTag } from "../utils/chip-options.js";
+import { brand } from "../theme.js";
+
+type Mode =
+  | { kind: "list" }
+  | { kind: "add" }
+  | { kind: "edit"; tag: ChipTag }
+  | { kind: "confirm-remove"; tag: ChipTag }
+  | { kind: "saving"; label: string };
+
+interface TagEditorProps {
+  chipId: string;
+  tags: ChipTag[];
+  isActive: boolean;
+  /** Called after every successful change so the caller can reload tags. */
+  onChanged: () => void;
+  onClose: () => void;
+}
+
+/** Add, change and remove a chip's tags. Owns the keyboard while open. */
+export function TagEditor({ chipId, tags, isActive, onChanged, onClose }: TagEditorProps) {
+  const client = useClient();
+  const [mode, setMode] = useState<Mode>({ kind: "list" });
+  const [cursor, setCursor] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (cursor >= tags.length && tags.length > 0) setCursor(tags.length - 1);
+  }, [cursor, tags.length]);
+
+  const run = async (label: string, action: () => Promise<unknown>) => {
+    setMode({ kind: "saving", label });
+    setError(null);
+    try {
+      await action();
+      setMode({ kind: "list" });
+      onChanged();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+      setMode({ kind: "list" });
+    }
+  };
+
+  const handleSubmit = (input: string) => {
+    let tag: { key: string; value: string };
+    try {
+      tag = parseTag(input);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+      return;
+    }
+    const original = mode.kind === "edit" ? mode.tag : null;
+    if (tags.some((t) => t.key === tag.key && t.key !== original?.key)) {
+      setError(`Tag "${tag.key}" already exists; select it and press e to change it`);
+      return;
+    }
+    if (original && original.key === tag.key && original.value === tag.value) {
+      setMode({ kind: "list" });
+      return;
+    }
+    run(`Saving ${tag.key}=${tag.value}...`, async () => {
+      // Renaming a key replaces the old tag
+      if (original && original.key !== tag.key) {
+        await client.deleteChipTag(chipId, original.key);
+      }
+      await client.addChipTags(chipId, { [tag.key]: tag.value });
+    });
+  };
+
+  useInput((input, key) => {
+    if (mode.kind === "saving") return;
+
+    if (mode.kind === "add" || mode.kind === "edit") {
+      if (key.escape) {
+        setMode({ kind: "list" });
+        setError(null);
+      }
+      return;
+    }
+
+    if (mode.kind === "confirm-remove") {
+      if (input === "y") {
+        const { tag } = mode;
+        run(`Removing ${tag.key}...`, () => client.deleteChipTag(chipId, tag.key));
+      } else if (input === "n" || key.escape) {
+        setMode({ kind: "list" });
+      }
+      return;
+    }
+
+    const selected = tags[cursor];
+    if (key.escape) {
+      onClose();
+    } else if (key.upArrow) {
+      setCursor((c) => Math.max(0, c - 1));
+    } else if (key.downArrow) {
+      setCursor((c) => Math.min(tags.length - 1, c + 1));
+    } else if (input === "a") {
+      setError(null);
+      setMode({ kind: "add" });
+    } else if ((input === "e" || key.return) && selected) {
+      setError(null);
+      setMode({ kind: "edit", tag: selected });
+    } else if (input === "x" && selected) {
+      setError(null);
+      setMode({ kind: "confirm-remove", tag: selected });
+    }
+  }, { isActive });
+
+  return (
+    <Box flexDirection="column">
+      <Text color={brand.cyan} bold>
+        Edit Tags
+      </Text>
+      {tags.length === 0 && <Text color={brand.muted}>No tags</Text>}
+      {tags.map((t, i) => {
+        const isCursor = mode.kind === "list" && i === cursor;
+        return (
+          <Text key={t.key}>
+            <Text color={isCursor ? brand.cyan : brand.muted}>{isCursor ? "> " : "  "}</Text>
+            <Text color={isCursor ? brand.cyan : brand.muted}>{t.key}: </Text>
+            <Text color={brand.text}>{t.value}</Text>
+          </Text>
+        );
+      })}
+
+      {(mode.kind === "add" || mode.kind === "edit") && (
+        <Box>
+          <Text color={brand.violet}>{mode.kind === "add" ? "add ❯ " : "edit ❯ "}</Text>
+          <TextInput
+            placeholder="key=value"
+            defaultValue={mode.kind === "edit" ? `${mode.tag.key}=${mode.tag.value}` : ""}
+            onSubmit={handleSubmit}
+          />
+        </Box>
+      )}
+
+      {mode.kind === "confirm-remove" && (
+        <Text color={brand.error} bold>
+          Remove tag {mode.tag.key}={mode.tag.value}? y:confirm  n:cancel
+        </Text>
+      )}
+
+      {mode.kind === "saving" && <Spinner label={mode.label} />}
+
+      {error && <Text color={brand.error}>{error}</Text>}
+
+      <Text color={brand.muted} dimColor>
+        {mode.kind === "add" || mode.kind === "edit"
+          ? "⏎:save  Esc:cancel"
+          : "↑↓:select  a:add  e:change  x:remove  Esc:done"}
+      </Text>
+    </Box>
+  );
+}
@@ -0,0 +1,46 @@
+import React, { useState, useEffect } from "react";
+import { Box, Text } from "ink";
+import { brand } from "../theme.js";
+import type { DeleteNotice, PendingDelete } from "../hooks/use-soft-delete.js";
+
+interface UndoToastProps {
+  pending: PendingDelete[];
+  notice: DeleteNotice | null;
+  width: number;
+}
+
+/** One line counting down to a pending deletion, or reporting how the last one went. */
+export function UndoToast({ pending, notice, width }: UndoToastProps) {
+  const [now, setNow] = useState(Date.now());
+
+  // Tick once a second so the countdown stays current
+  useEffect(() => {
+    if (pending.length === 0) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [pending.length]);
+
+  const last = pending[pending.length - 1];
+  if (last) {
+    const secondsLeft = Math.max(0, Math.ceil((last.deadline - now) / 1000));
+    const what = last.names.length === 1 ? `"${last.names[0]}"` : `${last.names.length} chips`;
+    return (
+      <Box width={width} paddingX={1}>
+        <Text color={brand.error} wrap="truncate">
+          🗑 Deleting {what} in {secondsLeft}s
+          {pending.length > 1 && <Text color={brand.muted}> (+{pending.length - 1} more pending)</Text>}
+          <Text color={brand.cyan}>{"  "}u:undo</Text>
+        </Text>
+      </Box>
+    );
+  }
+
+  return (
+    <Box width={width} paddingX={1}>
+      <Text color={notice!.failed ? brand.error : brand.success} wrap="truncate">
+        {notice!.failed ? "✗ " : "✓ "}
+        {notice!.text}
+      </Text>
+    </Box>
+  );
+}
@@ -0,0 +1,36 @@
+import { useState, useEffect, useCallback } from "react";
+import { copyToClipboard } from "../utils/clipboard.js";
+
+/** How long a copy result stays on screen. */
+const STATUS_MS = 2000;
+
+export interface CopyStatus {
+  ok: boolean;
+  message: string;
+}
+
+/**
+ * Copy text to the clipboard and show the outcome briefly. The message names
+ * the method used, since an OSC 52 copy can't be confirmed.
+ */
+export function useClipboard() {
+  const [copyStatus, setCopyStatus] = useState<CopyStatus | null>(null);
+
+  const copy = useCallback((text: string, what: string) => {
+    try {
+      const method = copyToClipboard(text);
+      setCopyStatus({ ok: true, message: `Copied ${what} (${method})` });
+    } catch (err) {
+      setCopyStatus({ ok: false, message: err instanceof Error ? err.message : String(err) });
+    }
+  }, []);
+
+  // Each copy restarts the timer, and unmounting clears it
+  useEffect(() => {
+    if (!copyStatus) return;
+    const timer = setTimeout(() => setCopyStatus(null), STATUS_MS);
+    return () => clearTimeout(timer);
+  }, [copyStatus]);
+
+  return { copyStatus, copy };
+}
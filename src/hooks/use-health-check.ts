@@ -0,0 +1,94 @@
+import { useState, useEffect, useRef } from "react";
+import type { DatalatheClient } from "@datalathe/client";
+import { describeConnectionError } from "../utils/connection.js";
+
+/** Time between pings while the engine is up. */
+const CHECK_INTERVAL_MS = 15_000;
+/** A ping slower than this counts as a failure. */
+const PING_TIMEOUT_MS = 10_000;
+/** First retry delay after a failure; doubles per attempt up to MAX_RETRY_MS. */
+const BASE_RETRY_MS = 2_000;
+const MAX_RETRY_MS = 60_000;
+
+export type HealthStatus = "checking" | "up" | "down";
+
+export interface HealthState {
+  status: HealthStatus;
+  /** Round-trip time of the last successful ping. */
+  latencyMs: number | null;
+  error: string | null;
+  /** Consecutive failed pings. */
+  failures: number;
+  /** Epoch ms of the next retry while down. */
+  retryAt: number | null;
+}
+
+const INITIAL: HealthState = { status: "checking", latencyMs: null, error: null, failures: 0, retryAt: null };
+
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(`No response after ${ms / 1000}s`)), ms);
+    promise.then(
+      (value) => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      (err: unknown) => {
+        clearTimeout(timer);
+        reject(err);
+      },
+    );
+  });
+}
+
+/**
+ * Ping the engine in the background. While up it checks every
+ * CHECK_INTERVAL_MS; after a failure it retries with exponential backoff and
+ * calls `onRecover` once a ping succeeds again.
+ */
+export function useHealthCheck(client: DatalatheClient | null, onRecover?: () => void): HealthState {
+  const [state, setState] = useState<HealthState>(INITIAL);
+  const onRecoverRef = useRef(onRecover);
+  onRecoverRef.current = onRecover;
+
+  useEffect(() => {
+    setState(INITIAL);
+    if (!client) return;
+
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let failures = 0;
+
+    const check = async () => {
+      const started = Date.now();
+      try {
+        await withTimeout(client.getDatabases(), PING_TIMEOUT_MS);
+        if (cancelled) return;
+        if (failures > 0) onRecoverRef.current?.();
+        failures = 0;
+        setState({ status: "up", latencyMs: Date.now() - started, error: null, failures: 0, retryAt: null });
+        timer = setTimeout(check, CHECK_INTERVAL_MS);
+      } catch (err) {
+        if (cancelled) return;
+        failures++;
+        const delay = Math.min(MAX_RETRY_MS, BASE_RETRY_MS * 2 ** (failures - 1));
+        setState({
+          status: "down",
+          latencyMs: null,
+          error: describeConnectionError(err),
+          failures,
+          retryAt: Date.now() + delay,
+        });
+        timer = setTimeout(check, delay);
+      }
+    };
+
+    check();
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [client]);
+
+  return state;
+}
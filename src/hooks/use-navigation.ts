@@ -7,10 +7,18 @@ export type Screen =
   | "create-chip"
   | "create-chip-from-chip"
   | "chip-detail"
+  | "chip-preview"
+  | "chip-lineage"
+  | "chip-refresh"
   | "query"
+  | "query-history"
   | "delete-chip"
+  | "bulk-actions"
+  | "trash"
+  | "storage-overview"
   | "extract-tables"
-  | "download-binaries";
+  | "download-binaries"
+  | "save-profile";
 
 export interface NavigationState {
   screen: Screen;
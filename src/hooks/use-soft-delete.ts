@@ -0,0 +1,166 @@
+import { useState, useEffect, useRef, useCallback } from "react";
+import type { DatalatheClient } from "@datalathe/client";
+import { captureToTrash, confirmTrash, removeFromTrash } from "../utils/trash.js";
+
+/** How long the outcome of a finished deletion stays on screen. */
+const NOTICE_MS = 5_000;
+
+export interface DeleteOutcome {
+  deleted: string[];
+  failed: { chipId: string; message: string }[];
+}
+
+/** Chips waiting out the undo window. */
+export interface PendingDelete {
+  id: number;
+  chipIds: string[];
+  names: string[];
+  /** Epoch ms when the chips are actually deleted. */
+  deadline: number;
+}
+
+export interface DeleteNotice {
+  text: string;
+  failed: boolean;
+}
+
+export interface ScheduledDelete {
+  /** Settles once the chips are deleted, or with null if the deletion was undone. */
+  done: Promise<DeleteOutcome | null>;
+}
+
+interface Batch extends PendingDelete {
+  client: DatalatheClient;
+  connectionUrl: string;
+  timer: ReturnType<typeof setTimeout> | undefined;
+  resolve: (outcome: DeleteOutcome | null) => void;
+}
+
+export interface SoftDelete {
+  pending: PendingDelete[];
+  notice: DeleteNotice | null;
+  /**
+   * Copy the chips into the trash, then delete them once the grace period
+   * passes. Rejects, deleting nothing, if they can't be captured first.
+   */
+  schedule: (chipIds: string[]) => Promise<ScheduledDelete>;
+  /** Cancel the most recently scheduled deletion. */
+  undo: () => void;
+  /** Delete everything pending now, e.g. before quitting. */
+  flush: () => Promise<void>;
+}
+
+/**
+ * Deletes chips after an undo window instead of straight away. Deletions
+ * run against the client they were scheduled with, so they still complete
+ * after switching engines. `onDeleted` gets the chips that are really gone.
+ */
+export function useSoftDelete(
+  client: DatalatheClient | null,
+  connectionUrl: string | null,
+  graceMs: number,
+  onDeleted: (chipIds: string[]) => void,
+): SoftDelete {
+  const [pending, setPending] = useState<PendingDelete[]>([]);
+  const [notice, setNotice] = useState<DeleteNotice | null>(null);
+  const batches = useRef<Batch[]>([]);
+  const nextId = useRef(1);
+  const onDeletedRef = useRef(onDeleted);
+  onDeletedRef.current = onDeleted;
+
+  const sync = () => {
+    setPending(batches.current.map(({ id, chipIds, names, deadline }) => ({ id, chipIds, names, deadline })));
+  };
+
+  const take = (id: number): Batch | undefined => {
+    const batch = batches.current.find((b) => b.id === id);
+    if (!batch) return undefined;
+    clearTimeout(batch.timer);
+    batches.current = batches.current.filter((b) => b.id !== id);
+    sync();
+    return batch;
+  };
+
+  const execute = useCallback(async (id: number) => {
+    const batch = take(id);
+    if (!batch) return;
+    const outcome: DeleteOutcome = { deleted: [], failed: [] };
+    for (const chipId of batch.chipIds) {
+      try {
+        await batch.client.deleteChip(chipId);
+        outcome.deleted.push(chipId);
+      } catch (err) {
+        outcome.failed.push({ chipId, message: err instanceof Error ? err.message : String(err) });
+      }
+    }
+    if (outcome.deleted.length > 0) {
+      await confirmTrash(outcome.deleted, batch.connectionUrl).catch(() => {});
+    }
+    // A chip that wasn't deleted still exists, so it doesn't belong in the trash
+    if (outcome.failed.length > 0) {
+      await removeFromTrash(outcome.failed.map((f) => f.chipId), batch.connectionUrl).catch(() => {});
+    }
+    setNotice(
+      outcome.failed.length === 0
+        ? { text: `Deleted ${outcome.deleted.length} chip(s); restore from Trash`, failed: false }
+        : {
+            text: `Deleted ${outcome.deleted.length}, failed ${outcome.failed.length}: ${outcome.failed[0].message}`,
+            failed: true,
+          },
+    );
+    if (outcome.deleted.length > 0) onDeletedRef.current(outcome.deleted);
+    batch.resolve(outcome);
+  }, []);
+
+  const schedule = useCallback(
+    async (chipIds: string[]): Promise<ScheduledDelete> => {
+      if (!client || !connectionUrl) throw new Error("Not connected");
+      const entries = await captureToTrash(client, chipIds, connectionUrl);
+      let resolve!: (outcome: DeleteOutcome | null) => void;
+      const done = new Promise<DeleteOutcome | null>((r) => {
+        resolve = r;
+      });
+      const id = nextId.current++;
+      batches.current = [
+        ...batches.current,
+        {
+          id,
+          chipIds,
+          names: entries.map((e) => e.name),
+          deadline: Date.now() + graceMs,
+          client,
+          connectionUrl,
+          timer: setTimeout(() => execute(id), graceMs),
+          resolve,
+        },
+      ];
+      setNotice(null);
+      sync();
+      return { done };
+    },
+    [client, connectionUrl, graceMs, execute],
+  );
+
+  const undo = useCallback(() => {
+    const last = batches.current[batches.current.length - 1];
+    if (!last) return;
+    take(last.id);
+    removeFromTrash(last.chipIds, last.connectionUrl).catch(() => {});
+    setNotice({ text: `Kept ${last.chipIds.length} chip(s); nothing was deleted`, failed: false });
+    last.resolve(null);
+  }, []);
+
+  const flush = useCallback(async () => {
+    for (const batch of batches.current) {
+      await execute(batch.id);
+    }
+  }, [execute]);
+
+  useEffect(() => {
+    if (!notice) return;
+    const timer = setTimeout(() => setNotice(null), NOTICE_MS);
+    return () => clearTimeout(timer);
+  }, [notice]);
+
+  return { pending, notice, schedule, undo, flush };
+}
@@ -0,0 +1,409 @@
+import React, { useState, useEffect } from "react";
+import { Box, Text, useInput } from "ink";
+import { Select, Spinner, TextInput } from "@inkjs/ui";
+import type { ChipMetadata, ChipTag, ChipsResponse } from "@datalathe/client";
+import { useClient } from "../hooks/use-client.js";
+import type { ScheduledDelete } from "../hooks/use-soft-delete.js";
+import { useAsync } from "../hooks/use-async.js";
+import { useTerminalSize } from "../hooks/use-terminal-size.js";
+import { ErrorDisplay } from "../components/error-display.js";
+import { brand } from "../theme.js";
+import { parseTag } from "../utils/chip-options.js";
+import { loadChipRecords, saveChipRecord, type ChipRecord } from "../utils/chip-records.js";
+import { chipDefinition, createFromDefinition, definitionRecord } from "../utils/chip-definition.js";
+import {
+  runBulk,
+  chipMetadataExport,
+  writeChipMetadata,
+  type BulkItem,
+  type BulkStatus,
+} from "../utils/bulk-actions.js";
+
+type Step = "menu" | "confirm-delete" | "add-tag" | "remove-tag" | "export" | "running" | "done";
+
+const INPUT_ACTIVE_STEPS: Step[] = ["confirm-delete", "add-tag", "export"];
+
+type Action = "delete" | "add-tag" | "remove-tag" | "refresh" | "export";
+
+const STATUS_ICONS: Record<BulkStatus, string> = {
+  pending: "·",
+  running: "…",
+  ok: "✓",
+  failed: "✗",
+  cancelled: "–",
+};
+
+const STATUS_COLORS: Record<BulkStatus, string> = {
+  pending: brand.muted,
+  running: brand.cyan,
+  ok: brand.success,
+  failed: brand.error,
+  cancelled: brand.muted,
+};
+
+interface BulkActionsScreenProps {
+  chipIds: string[];
+  connectionUrl: string;
+  /** Trash the chips and delete them once the undo window passes. */
+  onDelete: (chipIds: string[]) => Promise<ScheduledDelete>;
+  /** Called after tags change or chips are created so chip lists elsewhere can reload. */
+  onChanged: () => void;
+  onBack: () => void;
+  onInputActive?: (active: boolean) => void;
+  isFocused: boolean;
+}
+
+export function BulkActionsScreen({
+  chipIds,
+  connectionUrl,
+  onDelete,
+  onChanged,
+  onBack,
+  onInputActive,
+  isFocused,
+}: BulkActionsScreenProps) {
+  const client = useClient();
+  const { rows: termRows } = useTerminalSize();
+  const { data, loading, error, refetch } = useAsync(
+    async (): Promise<{ chips: ChipsResponse; records: ChipRecord[] }> => {
+      const [chips, records] = await Promise.all([client.listChips(), loadChipRecords(connectionUrl)]);
+      return { chips, records };
+    },
+    [connectionUrl],
+  );
+
+  const [step, setStep] = useState<Step>("menu");
+  const [action, setAction] = useState<Action | null>(null);
+  const [items, setItems] = useState<BulkItem[]>([]);
+  const [summary, setSummary] = useState<string | null>(null);
+  const [inputError, setInputError] = useState<string | null>(null);
+
+  useEffect(() => {
+    onInputActive?.(INPUT_ACTIVE_STEPS.includes(step));
+    return () => onInputActive?.(false);
+  }, [step, onInputActive]);
+
+  const metadata: ChipMetadata[] = data?.chips.metadata ?? [];
+  const metaMap = new Map(metadata.map((m) => [m.chip_id, m]));
+  const recordNames = new Map((data?.records ?? []).map((r) => [r.chipId, r.name]));
+  const label = (id: string) => metaMap.get(id)?.name ?? recordNames.get(id) ?? id.slice(0, 12);
+
+  // Tag keys on any checked chip, with how many carry each
+  const tagCounts = new Map<string, number>();
+  for (const t of data?.chips.tags ?? []) {
+    if (chipIds.includes(t.chip_id)) tagCounts.set(t.key, (tagCounts.get(t.key) ?? 0) + 1);
+  }
+
+  const tagOptions = [...tagCounts.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, count]) => ({ label: `${key}  (${count} of ${chipIds.length})`, value: key }));
+
+  const confirmPhrase = `delete ${chipIds.length}`;
+
+  const run = async (kind: Action, perChip: (chipId: string) => Promise<string | void>) => {
+    setAction(kind);
+    setStep("running");
+    setSummary(null);
+    const initial = chipIds.map((chipId) => ({ chipId, label: label(chipId), status: "pending" as BulkStatus }));
+    const done = await runBulk(initial, perChip, setItems);
+    const ok = done.filter((i) => i.status === "ok");
+    const failed = done.length - ok.length;
+    setSummary(`${ok.length} succeeded${failed > 0 ? `, ${failed} failed` : ""}`);
+    setStep("done");
+    onChanged();
+    refetch();
+  };
+
+  // All chips go to the trash together, so one undo brings the whole set back
+  const deleteAll = async () => {
+    setAction("delete");
+    setStep("running");
+    setSummary(null);
+    const initial: BulkItem[] = chipIds.map((chipId) => ({
+      chipId,
+      label: label(chipId),
+      status: "running",
+      message: "moving to trash",
+    }));
+    setItems(initial);
+    let scheduled: ScheduledDelete;
+    try {
+      scheduled = await onDelete(chipIds);
+    } catch (err) {
+      setInputError(err instanceof Error ? err.message : String(err));
+      setItems([]);
+      setStep("confirm-delete");
+      return;
+    }
+    setItems(initial.map((i) => ({ ...i, message: "in trash; deleted when the undo window ends" })));
+    const outcome = await scheduled.done;
+    if (!outcome) {
+      setItems(initial.map((i) => ({ ...i, status: "cancelled", message: "undone" })));
+      setSummary("Undone; nothing was deleted");
+    } else {
+      setItems(
+        initial.map((i) => {
+          const failure = outcome.failed.find((f) => f.chipId === i.chipId);
+          return failure
+            ? { ...i, status: "failed", message: failure.message }
+            : { ...i, status: "ok", message: "deleted" };
+        }),
+      );
+      const failed = outcome.failed.length;
+      setSummary(`${outcome.deleted.length} deleted${failed > 0 ? `, ${failed} failed` : ""}; restore from Trash`);
+    }
+    setStep("done");
+  };
+
+  const refreshChip = async (chipId: string) => {
+    if (!data) throw new Error("Chip list not loaded");
+    const def = chipDefinition(chipId, data.chips, data.records.find((r) => r.chipId === chipId));
+    const newChipId = await createFromDefinition(client, def);
+    await saveChipRecord(definitionRecord(def, newChipId, connectionUrl)).catch(() => {});
+    return `→ ${newChipId}`;
+  };
+
+  const exportMetadata = async (filePath: string) => {
+    if (!data) return;
+    setStep("running");
+    setAction("export");
+    setItems([]);
+    try {
+      const written = await writeChipMetadata(
+        filePath,
+        chipMetadataExport(chipIds, data.chips, data.records),
+      );
+      setSummary(`Exported metadata for ${chipIds.length} chip(s) to ${written}`);
+      setStep("done");
+    } catch (err) {
+      setInputError(err instanceof Error ? err.message : String(err));
+      setStep("export");
+    }
+  };
+
+  useInput((_input, key) => {
+    if (INPUT_ACTIVE_STEPS.includes(step) || step === "remove-tag") {
+      if (key.escape) {
+        setInputError(null);
+        setStep("menu");
+      }
+    } else if (step === "done" && key.return) {
+      setSummary(null);
+      setItems([]);
+      setStep("menu");
+    }
+  }, { isActive: isFocused });
+
+  if (loading && !data) {
+    return <Spinner label="Loading chips..." />;
+  }
+
+  if (error) {
+    return <ErrorDisplay message={error} onRetry={refetch} onBack={onBack} />;
+  }
+
+  const menuOptions: { label: string; value: Action }[] = [
+    { label: `Delete all ${chipIds.length}`, value: "delete" },
+    { label: "Add a tag to all", value: "add-tag" },
+    { label: "Remove a tag from all", value: "remove-tag" },
+    { label: "Refresh all (re-create from definitions)", value: "refresh" },
+    { label: "Export metadata to JSON", value: "export" },
+  ];
+
+  const handleMenu = (value: Action) => {
+    setInputError(null);
+    if (value === "delete") setStep("confirm-delete");
+    else if (value === "add-tag") setStep("add-tag");
+    else if (value === "remove-tag") setStep("remove-tag");
+    else if (value === "export") setStep("export");
+    else run("refresh", refreshChip);
+  };
+
+  // Progress list window, keeping the chip being worked on in view
+  const maxVisible = Math.max(3, termRows - 16);
+  const activeIndex = Math.max(0, items.findIndex((i) => i.status === "running" || i.status === "pending"));
+  const scrollOffset = Math.min(
+    Math.max(0, activeIndex - Math.floor(maxVisible / 2)),
+    Math.max(0, items.length - maxVisible),
+  );
+  const visibleItems = items.slice(scrollOffset, scrollOffset + maxVisible);
+
+  return (
+    <Box flexDirection="column" gap={1} paddingY={1}>
+      <Text color={brand.cyan} bold>
+        Bulk Actions
+      </Text>
+
+      {chipIds.length === 0 && step !== "done" ? (
+        <Box flexDirection="column" gap={1}>
+          <Text color={brand.muted}>No chips checked. Check chips in the sidebar with space first.</Text>
+          <Text color={brand.muted}>b:back</Text>
+        </Box>
+      ) : (
+        <>
+          {(step === "menu" || step === "confirm-delete") && (
+            <Box flexDirection="column">
+              <Text color={brand.muted}>{chipIds.length} checked chip(s):</Text>
+              {chipIds.slice(0, maxVisible).map((id) => (
+                <Text key={id} wrap="truncate-end">
+                  <Text color={brand.text}>{"  "}{label(id)}</Text>
+                  <Text color={brand.muted}> {id.slice(0, 8)}</Text>
+                  {!metaMap.has(id) && <Text color={brand.muted} dimColor> (not on engine)</Text>}
+                </Text>
+              ))}
+              {chipIds.length > maxVisible && (
+                <Text color={brand.muted} dimColor>{"  "}…and {chipIds.length - maxVisible} more</Text>
+              )}
+            </Box>
+          )}
+
+          {step === "menu" && (
+            isFocused ? (
+              <Select options={menuOptions} onChange={(value) => handleMenu(value as Action)} />
+            ) : (
+              <Box flexDirection="column">
+                {menuOptions.map((opt) => (
+                  <Text key={opt.value} color={brand.text}>{"  "}{opt.label}</Text>
+                ))}
+              </Box>
+            )
+          )}
+
+          {step === "confirm-delete" && (
+            <Box flexDirection="column" gap={1}>
+              <Text color={brand.error} bold>
+                Delete {chipIds.length} chip(s)?
+              </Text>
+              <Text color={brand.muted}>
+                This will remove their metadata, local files, and S3 objects. Their definitions
+                are kept in the trash so they can be re-created.
+              </Text>
+              <Text color={brand.text}>Type "{confirmPhrase}" to confirm (Esc to cancel):</Text>
+              <Box>
+                <Text color={brand.violet}>{"❯ "}</Text>
+                <TextInput
+                  placeholder={confirmPhrase}
+                  onSubmit={(v) => {
+                    if (v.trim() !== confirmPhrase) {
+                      setInputError(`Type "${confirmPhrase}" exactly to delete`);
+                      return;
+                    }
+                    deleteAll();
+                  }}
+                />
+              </Box>
+            </Box>
+          )}
+
+          {step === "add-tag" && (
+            <Box flexDirection="column" gap={1}>
+              <Text color={brand.text}>Tag to add to all checked chips, as key=value (Esc to cancel):</Text>
+              <Text color={brand.muted}>An existing tag with the same key is overwritten.</Text>
+              <Box>
+                <Text color={brand.violet}>{"❯ "}</Text>
+                <TextInput
+                  placeholder="team=analytics"
+                  onSubmit={(v) => {
+                    let tag: { key: string; value: string };
+                    try {
+                      tag = parseTag(v);
+                    } catch (err) {
+                      setInputError(err instanceof Error ? err.message : String(err));
+                      return;
+                    }
+                    run("add-tag", (id) => client.addChipTags(id, { [tag.key]: tag.value }));
+                  }}
+                />
+              </Box>
+            </Box>
+          )}
+
+          {step === "remove-tag" && (
+            <Box flexDirection="column" gap={1}>
+              {tagCounts.size === 0 ? (
+                <Text color={brand.muted}>None of the checked chips have tags. Esc:cancel</Text>
+              ) : (
+                <>
+                  <Text color={brand.text}>Tag key to remove (Esc to cancel):</Text>
+                  {isFocused ? (
+                    <Select
+                      options={tagOptions}
+                      onChange={(key) => {
+                        const tagged = new Set(
+                          (data?.chips.tags ?? [])
+                            .filter((t: ChipTag) => t.key === key)
+                            .map((t: ChipTag) => t.chip_id),
+                        );
+                        run("remove-tag", async (id) => {
+                          if (!tagged.has(id)) return "not tagged";
+                          await client.deleteChipTag(id, key);
+                        });
+                      }}
+                    />
+                  ) : (
+                    <Box flexDirection="column">
+                      {tagOptions.map((opt) => (
+                        <Text key={opt.value} color={brand.text}>{"  "}{opt.label}</Text>
+                      ))}
+                    </Box>
+                  )}
+                </>
+              )}
+            </Box>
+          )}
+
+          {step === "export" && (
+            <Box flexDirection="column" gap={1}>
+              <Text color={brand.text}>Export file path (Esc to cancel):</Text>
+              <Box>
+                <Text color={brand.violet}>{"❯ "}</Text>
+                <TextInput
+                  placeholder="chips-metadata.json"
+                  onSubmit={(v) => exportMetadata(v.trim() || "chips-metadata.json")}
+                />
+              </Box>
+            </Box>
+          )}
+        </>
+      )}
+
+      {(step === "running" || step === "done") && items.length > 0 && (
+        <Box flexDirection="column">
+          {visibleItems.map((item) => (
+            <Text key={item.chipId} wrap="truncate-end">
+              <Text color={STATUS_COLORS[item.status]}>{STATUS_ICONS[item.status]} </Text>
+              <Text color={brand.text}>{item.label}</Text>
+              <Text color={brand.muted}> {item.chipId.slice(0, 8)}</Text>
+              {item.message && (
+                <Text color={item.status === "failed" ? brand.error : brand.muted}> {item.message}</Text>
+              )}
+            </Text>
+          ))}
+        </Box>
+      )}
+
+      {step === "running" && (
+        <Spinner
+          label={
+            action === "export"
+              ? "Writing export..."
+              : action === "delete"
+                ? "Waiting out the undo window (u to undo)..."
+              : `${items.filter((i) => i.status === "ok" || i.status === "failed").length}/${items.length} done...`
+          }
+        />
+      )}
+
+      {step === "done" && summary && (
+        <Box flexDirection="column">
+          <Text color={items.some((i) => i.status === "failed") ? brand.error : brand.success}>
+            {summary}
+          </Text>
+          <Text color={brand.muted}>⏎:more actions  b:back</Text>
+        </Box>
+      )}
+
+      {inputError && <Text color={brand.error}>{inputError}</Text>}
+    </Box>
+  );
+}
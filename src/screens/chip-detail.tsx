@@ -1,10 +1,13 @@
-import React, { useState } from "react";
+import React, { useState, useEffect } from "react";
 import { Box, Text, useInput } from "ink";
 import { Spinner } from "@inkjs/ui";
 import type { Chip, ChipTag } from "@datalathe/client";
 import { useClient } from "../hooks/use-client.js";
+import type { ScheduledDelete } from "../hooks/use-soft-delete.js";
 import { useAsync } from "../hooks/use-async.js";
 import { ErrorDisplay } from "../components/error-display.js";
+import { TagEditor } from "../components/tag-editor.js";
+import { SubChipList } from "../components/sub-chip-list.js";
 import { brand } from "../theme.js";
 
 type DeleteState =
@@ -18,8 +21,17 @@ interface ChipDetailScreenProps {
   checkedChipIds: string[];
   onQuery: (chipIds: string[]) => void;
   onCreateFromChip: (chipIds: string[]) => void;
+  onPreview: (chipId: string) => void;
+  onLineage: (chipId: string) => void;
+  onRefresh: (chipId: string) => void;
   onBack: () => void;
+  /** Trash the chips and delete them once the undo window passes. */
+  onDelete: (chipIds: string[]) => Promise<ScheduledDelete>;
+  /** Called once the chip is in the trash. */
   onDeleted: () => void;
+  /** Called after tags change so chip lists elsewhere can reload. */
+  onTagsChanged: () => void;
+  onInputActive?: (active: boolean) => void;
   isFocused: boolean;
 }
 
@@ -28,8 +40,14 @@ export function ChipDetailScreen({
   checkedChipIds,
   onQuery,
   onCreateFromChip,
+  onPreview,
+  onLineage,
+  onRefresh,
   onBack,
+  onDelete,
   onDeleted,
+  onTagsChanged,
+  onInputActive,
   isFocused,
 }: ChipDetailScreenProps) {
   const client = useClient();
@@ -40,13 +58,26 @@ export function ChipDetailScreen({
 
   const [deleteState, setDeleteState] = useState<DeleteState>({ phase: "idle" });
 
+  const allChips = data?.chips ?? [];
+  const subChips = allChips.filter(
+    (c: Chip) => c.chip_id === chipId && c.chip_id !== c.sub_chip_id,
+  );
+  const [editingTags, setEditingTags] = useState(false);
+  const [browsingSubChips, setBrowsingSubChips] = useState(false);
+
+  // The tag editor and sub-chip browser own Esc and typing, so hold off the global keys
+  useEffect(() => {
+    onInputActive?.(editingTags || browsingSubChips);
+    return () => onInputActive?.(false);
+  }, [editingTags, browsingSubChips, onInputActive]);
+
   useInput((input, key) => {
-    if (deleteState.phase === "deleting") return;
+    if (editingTags || browsingSubChips || deleteState.phase === "deleting") return;
 
     if (deleteState.phase === "confirming") {
       if (input === "y") {
         setDeleteState({ phase: "deleting" });
-        client.deleteChip(chipId).then(() => {
+        onDelete([chipId]).then(() => {
           onDeleted();
         }).catch((err: unknown) => {
           setDeleteState({
@@ -68,10 +99,21 @@ export function ChipDetailScreen({
       onCreateFromChip(ids);
     } else if (input === "d") {
       setDeleteState({ phase: "confirming" });
+    } else if (input === "v") {
+      onPreview(chipId);
+    } else if (input === "l") {
+      onLineage(chipId);
+    } else if (input === "R") {
+      onRefresh(chipId);
+    } else if (input === "t") {
+      setEditingTags(true);
+    } else if (input === "p" && subChips.length > 0) {
+      setBrowsingSubChips(true);
     }
   }, { isActive: isFocused });
 
-  if (loading) {
+  // Keep showing the old details while reloading after a tag change
+  if (loading && !data) {
     return <Spinner label="Loading chip details..." />;
   }
 
@@ -79,7 +121,6 @@ export function ChipDetailScreen({
     return <ErrorDisplay message={error} onRetry={refetch} onBack={onBack} />;
   }
 
-  const allChips = data?.chips ?? [];
   const meta = (data?.metadata ?? []).find((m) => m.chip_id === chipId);
   const chipTags = (data?.tags ?? []).filter((t: ChipTag) => t.chip_id === chipId);
 
@@ -146,7 +187,29 @@ export function ChipDetailScreen({
         </Box>
       )}
 
-      {chipTags.length > 0 && (
+      {subChips.length > 0 && (
+        <SubChipList
+          subChips={subChips}
+          isActive={isFocused && browsingSubChips}
+          onQuery={onQuery}
+          onClose={() => setBrowsingSubChips(false)}
+        />
+      )}
+
+      {editingTags && (
+        <TagEditor
+          chipId={chipId}
+          tags={chipTags}
+          isActive={isFocused}
+          onChanged={() => {
+            refetch();
+            onTagsChanged();
+          }}
+          onClose={() => setEditingTags(false)}
+        />
+      )}
+
+      {!editingTags && chipTags.length > 0 && (
         <Box flexDirection="column">
           <Text color={brand.cyan} bold>
             Tags
@@ -168,7 +231,7 @@ export function ChipDetailScreen({
         </Box>
       )}
 
-      {deleteState.phase === "deleting" && <Spinner label="Deleting chip..." />}
+      {deleteState.phase === "deleting" && <Spinner label="Moving chip to trash..." />}
 
       {deleteState.phase === "error" && (
         <Text color={brand.error}>Delete failed: {deleteState.message}</Text>
@@ -180,12 +243,19 @@ export function ChipDetailScreen({
         </Text>
       )}
 
-      <Box gap={2}>
-        <Text color={brand.muted}>s:query {otherChecked.length > 0 ? `(${1 + otherChecked.length} chips)` : "this chip"}</Text>
-        <Text color={brand.muted}>c:create from chip</Text>
-        <Text color={brand.muted}>d:delete</Text>
-        <Text color={brand.muted}>b:back</Text>
-      </Box>
+      {!editingTags && !browsingSubChips && (
+        <Box gap={2}>
+          <Text color={brand.muted}>s:query {otherChecked.length > 0 ? `(${1 + otherChecked.length} chips)` : "this chip"}</Text>
+          <Text color={brand.muted}>v:preview</Text>
+          <Text color={brand.muted}>l:lineage</Text>
+          <Text color={brand.muted}>R:refresh</Text>
+          <Text color={brand.muted}>c:create from chip</Text>
+          {subChips.length > 0 && <Text color={brand.muted}>p:partitions</Text>}
+          <Text color={brand.muted}>t:edit tags</Text>
+          <Text color={brand.muted}>d:delete</Text>
+          <Text color={brand.muted}>b:back</Text>
+        </Box>
+      )}
     </Box>
   );
 }
@@ -0,0 +1,147 @@
+import React, { useState, useEffect } from "react";
+import { Box, Text, useInput } from "ink";
+import { Spinner } from "@inkjs/ui";
+import type { Chip, ChipMetadata, ChipsResponse } from "@datalathe/client";
+import { useClient } from "../hooks/use-client.js";
+import { useAsync } from "../hooks/use-async.js";
+import { useTerminalSize } from "../hooks/use-terminal-size.js";
+import { ErrorDisplay } from "../components/error-display.js";
+import { brand } from "../theme.js";
+import { loadChipRecords, type ChipRecord } from "../utils/chip-records.js";
+import { buildLineageGraph, lineageLines } from "../utils/lineage.js";
+
+interface ChipLineageScreenProps {
+  chipId: string;
+  connectionUrl: string;
+  onSelectChip: (chipId: string) => void;
+  onBack: () => void;
+  isFocused: boolean;
+}
+
+export function ChipLineageScreen({
+  chipId,
+  connectionUrl,
+  onSelectChip,
+  onBack,
+  isFocused,
+}: ChipLineageScreenProps) {
+  const { rows: termRows } = useTerminalSize();
+  const client = useClient();
+  const { data, loading, error, refetch } = useAsync(
+    async (): Promise<{ chips: ChipsResponse; records: ChipRecord[] }> => {
+      const [chips, records] = await Promise.all([client.listChips(), loadChipRecords(connectionUrl)]);
+      return { chips, records };
+    },
+    [chipId, connectionUrl],
+  );
+
+  const metadata: ChipMetadata[] = data?.chips.metadata ?? [];
+  const metaMap = new Map(metadata.map((m) => [m.chip_id, m]));
+  const tablesByChip = new Map<string, string[]>();
+  for (const c of (data?.chips.chips ?? []) as Chip[]) {
+    const tables = tablesByChip.get(c.chip_id) ?? [];
+    if (!tables.includes(c.table_name)) tables.push(c.table_name);
+    tablesByChip.set(c.chip_id, tables);
+  }
+  const recordNames = new Map((data?.records ?? []).map((r) => [r.chipId, r.name]));
+  const lines = data ? lineageLines(chipId, buildLineageGraph(metadata, data.records)) : [];
+  const selfIndex = lines.findIndex((l) => l.direction === "self");
+
+  const [cursor, setCursor] = useState(0);
+
+  // Start on the focused chip once the tree has loaded
+  useEffect(() => {
+    setCursor(Math.max(0, selfIndex));
+  }, [selfIndex]);
+
+  useInput((input, key) => {
+    if (key.upArrow) {
+      setCursor((c) => Math.max(0, c - 1));
+    } else if (key.downArrow) {
+      setCursor((c) => Math.min(lines.length - 1, c + 1));
+    } else if (key.return) {
+      const line = lines[cursor];
+      if (line && line.chipId !== chipId && tablesByChip.has(line.chipId)) {
+        onSelectChip(line.chipId);
+      }
+    } else if (input === "r") {
+      refetch();
+    }
+  }, { isActive: isFocused });
+
+  if (loading) {
+    return <Spinner label="Loading lineage..." />;
+  }
+
+  if (error) {
+    return <ErrorDisplay message={error} onRetry={refetch} onBack={onBack} />;
+  }
+
+  const upstreamCount = lines.filter((l) => l.direction === "upstream").length;
+  const downstreamCount = lines.filter((l) => l.direction === "downstream").length;
+
+  // Scrollable window around the cursor
+  const maxVisible = Math.max(3, termRows - 14);
+  const scrollOffset = Math.min(
+    Math.max(0, cursor - Math.floor(maxVisible / 2)),
+    Math.max(0, lines.length - maxVisible),
+  );
+  const visible = lines.slice(scrollOffset, scrollOffset + maxVisible);
+
+  const label = (id: string) =>
+    metaMap.get(id)?.name ?? recordNames.get(id) ?? id.slice(0, 12);
+
+  return (
+    <Box flexDirection="column" gap={1} paddingY={1}>
+      <Text color={brand.cyan} bold>
+        Lineage: {label(chipId)}
+      </Text>
+      <Text color={brand.muted}>
+        {upstreamCount > 0 ? `${upstreamCount} upstream` : "no recorded sources"}
+        {" · "}
+        {downstreamCount > 0 ? `${downstreamCount} downstream` : "nothing derived from it"}
+      </Text>
+
+      <Box flexDirection="column">
+        {visible.map((line, i) => {
+          const globalIdx = scrollOffset + i;
+          const isCursor = globalIdx === cursor;
+          const onEngine = tablesByChip.has(line.chipId);
+          const isSelf = line.direction === "self";
+          const showHeading =
+            globalIdx === 0 || lines[globalIdx - 1]?.direction !== line.direction;
+          return (
+            <Box key={`${globalIdx}-${line.chipId}`} flexDirection="column">
+              {showHeading && !isSelf && (
+                <Text color={brand.violet}>
+                  {line.direction === "upstream" ? "Built from ↑" : "Derived into ↓"}
+                </Text>
+              )}
+              <Text wrap="truncate-end">
+                <Text color={isCursor ? brand.cyan : brand.muted}>{isCursor ? "> " : "  "}</Text>
+                <Text color={brand.border}>{line.prefix}</Text>
+                {isSelf && <Text color={brand.cyan}>● </Text>}
+                <Text color={isCursor ? brand.cyan : onEngine ? brand.text : brand.muted} bold={isSelf}>
+                  {label(line.chipId)}
+                </Text>
+                <Text color={brand.muted}> {line.chipId.slice(0, 8)}</Text>
+                {onEngine && (
+                  <Text color={brand.violet}> [{tablesByChip.get(line.chipId)!.join(", ")}]</Text>
+                )}
+                {!onEngine && <Text color={brand.muted} dimColor> (not on engine)</Text>}
+                {line.cycle && <Text color={brand.muted} dimColor> (cycle)</Text>}
+              </Text>
+            </Box>
+          );
+        })}
+      </Box>
+
+      <Box gap={2}>
+        <Text color={brand.muted}>↑↓:move</Text>
+        <Text color={brand.muted}>⏎:open chip</Text>
+        <Text color={brand.muted}>r:reload</Text>
+        <Text color={brand.muted}>b:back</Text>
+      </Box>
+    </Box>
+  );
+}
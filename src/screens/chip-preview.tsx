@@ -0,0 +1,180 @@
+import React, { useState, useEffect } from "react";
+import { Box, Text, useInput } from "ink";
+import { Spinner } from "@inkjs/ui";
+import { DatalatheResultSet } from "@datalathe/client";
+import type { Chip, SchemaField } from "@datalathe/client";
+import { useClient } from "../hooks/use-client.js";
+import { useAsync } from "../hooks/use-async.js";
+import { useTerminalSize } from "../hooks/use-terminal-size.js";
+import { TableView } from "../components/table-view.js";
+import { ErrorDisplay } from "../components/error-display.js";
+import { brand } from "../theme.js";
+import { previewQuery, profileQuery, parseProfile, type TableProfile } from "../utils/chip-profile.js";
+
+/** Rows fetched for the preview. */
+const PREVIEW_ROWS = 50;
+
+type Mode = "rows" | "profile";
+
+interface Preview {
+  /** Table the rows were read from. */
+  table: string;
+  rows: Record<string, unknown>[];
+  schema: SchemaField[];
+}
+
+interface ChipPreviewScreenProps {
+  chipId: string;
+  onBack: () => void;
+  onInputActive?: (active: boolean) => void;
+  isFocused: boolean;
+}
+
+export function ChipPreviewScreen({ chipId, onBack, onInputActive, isFocused }: ChipPreviewScreenProps) {
+  const { columns: termCols, rows: termRows } = useTerminalSize();
+  const client = useClient();
+  const [tableIndex, setTableIndex] = useState(0);
+  const [mode, setMode] = useState<Mode>("rows");
+  const [tableInputActive, setTableInputActive] = useState(false);
+
+  // The table's filter prompt and cell cursor consume letter keys
+  useEffect(() => {
+    onInputActive?.(tableInputActive);
+    return () => onInputActive?.(false);
+  }, [tableInputActive, onInputActive]);
+
+  const chipsState = useAsync(() => client.listChips(), [chipId]);
+  const tables: string[] = [...new Set(
+    (chipsState.data?.chips ?? [])
+      .filter((c: Chip) => c.chip_id === chipId)
+      .map((c: Chip) => c.table_name),
+  )];
+  const table = tables[tableIndex] ?? null;
+
+  const previewState = useAsync(async (): Promise<Preview | null> => {
+    if (!table) return null;
+    const report = await client.generateReport([chipId], [previewQuery(table, PREVIEW_ROWS)]);
+    const entry = report.results.get(0);
+    if (!entry || entry.error) throw new Error(entry?.error ?? "No results returned");
+    return { table, rows: new DatalatheResultSet(entry).toArray(), schema: entry.schema ?? [] };
+  }, [chipId, table]);
+
+  // Profiling scans the whole table, so it only runs once asked for. After
+  // switching tables the preview still holds the old table's schema until it
+  // reloads, so wait for the schema that belongs to this table.
+  const schema = previewState.data?.table === table ? previewState.data.schema : [];
+  const schemaKey = schema.map((f) => `${f.name}:${f.data_type}`).join(",");
+  const profileState = useAsync(async (): Promise<TableProfile | null> => {
+    if (mode !== "profile" || !table || schema.length === 0) return null;
+    const report = await client.generateReport([chipId], [profileQuery(table, schema)]);
+    const entry = report.results.get(0);
+    if (!entry || entry.error) throw new Error(entry?.error ?? "No results returned");
+    return parseProfile(schema, new DatalatheResultSet(entry).toArray()[0] ?? {});
+  }, [chipId, table, mode === "profile", schemaKey]);
+
+  useInput((input) => {
+    if (tableInputActive) return;
+    if (input === "p") {
+      setMode((m) => (m === "rows" ? "profile" : "rows"));
+    } else if (input === "]" && tables.length > 1) {
+      setTableIndex((i) => (i + 1) % tables.length);
+    } else if (input === "[" && tables.length > 1) {
+      setTableIndex((i) => (i - 1 + tables.length) % tables.length);
+    } else if (input === "r") {
+      if (mode === "profile") profileState.refetch();
+      else previewState.refetch();
+    }
+  }, { isActive: isFocused });
+
+  if (chipsState.loading) {
+    return <Spinner label="Loading chip..." />;
+  }
+  if (chipsState.error) {
+    return <ErrorDisplay message={chipsState.error} onRetry={chipsState.refetch} onBack={onBack} />;
+  }
+  if (!table) {
+    return (
+      <Box paddingY={1}>
+        <Text color={brand.muted}>Chip {chipId.slice(0, 8)}… has no tables to preview.</Text>
+      </Box>
+    );
+  }
+
+  const active = mode === "profile" ? profileState : previewState;
+  const viewWidth = termCols - Math.min(50, Math.floor(termCols * 0.38)) - 4;
+  const viewHeight = termRows - 14;
+
+  const renderBody = () => {
+    if (previewState.loading || active.loading) {
+      return <Spinner label={mode === "profile" ? `Profiling ${table}...` : `Loading ${table}...`} />;
+    }
+    if (active.error) {
+      return <Text color={brand.error}>{active.error}</Text>;
+    }
+    if (mode === "profile" && profileState.data) {
+      const { rowCount, columns } = profileState.data;
+      const data = columns.map((c) => ({
+        column: c.column,
+        type: c.type,
+        nulls: c.nulls,
+        "null %": rowCount > 0 ? `${((c.nulls / rowCount) * 100).toFixed(1)}%` : "—",
+        distinct: c.distinct,
+        min: c.min,
+        max: c.max,
+      }));
+      return (
+        <Box flexDirection="column">
+          <Text color={brand.muted}>{rowCount.toLocaleString()} rows</Text>
+          <TableView
+            data={data}
+            viewWidth={viewWidth}
+            viewHeight={viewHeight - 1}
+            isActive={isFocused}
+            onInputActive={setTableInputActive}
+          />
+        </Box>
+      );
+    }
+    return (
+      <Box flexDirection="column">
+        <Text color={brand.muted} wrap="truncate-end">
+          {schema.map((f) => `${f.name} ${f.data_type}`).join(", ")}
+        </Text>
+        <TableView
+          data={previewState.data?.rows ?? []}
+          schema={schema}
+          viewWidth={viewWidth}
+          viewHeight={viewHeight - 1}
+          emptyMessage="Table is empty"
+          isActive={isFocused}
+          onInputActive={setTableInputActive}
+        />
+      </Box>
+    );
+  };
+
+  return (
+    <Box flexDirection="column" gap={1} paddingY={1}>
+      <Box gap={2}>
+        <Text color={brand.cyan} bold>
+          {table}
+        </Text>
+        {tables.length > 1 && (
+          <Text color={brand.muted}>
+            table {tableIndex + 1}/{tables.length}
+          </Text>
+        )}
+        <Text color={brand.violet}>
+          {mode === "profile" ? "column profile" : `first ${PREVIEW_ROWS} rows`}
+        </Text>
+      </Box>
+      {renderBody()}
+      <Box gap={2}>
+        <Text color={brand.muted}>p:{mode === "profile" ? "rows" : "profile columns"}</Text>
+        {tables.length > 1 && <Text color={brand.muted}>[ ]:table</Text>}
+        <Text color={brand.muted}>r:reload</Text>
+        <Text color={brand.muted}>b:back</Text>
+      </Box>
+    </Box>
+  );
+}
@@ -0,0 +1,262 @@
+import React, { useState, useEffect } from "react";
+import { Box, Text, useInput } from "ink";
+import { Spinner, Select } from "@inkjs/ui";
+import type { Chip, ChipsResponse, DuckDBDatabase } from "@datalathe/client";
+import { useClient } from "../hooks/use-client.js";
+import type { ScheduledDelete } from "../hooks/use-soft-delete.js";
+import { brand } from "../theme.js";
+import { loadChipRecords, saveChipRecord, type ChipRecord } from "../utils/chip-records.js";
+import {
+  chipDefinition,
+  chipRowCounts,
+  createFromDefinition,
+  definitionProblem,
+  definitionRecord,
+  type ChipDefinition,
+} from "../utils/chip-definition.js";
+
+type Step = "loading" | "pick-source" | "confirm" | "refreshing" | "done";
+
+interface RefreshResult {
+  newChipId: string;
+  before: Map<string, number | null>;
+  after: Map<string, number | null>;
+  /** Why the old chip couldn't be moved to the trash; null when it was, or was kept. */
+  deleteError: string | null;
+  trashedOld: boolean;
+}
+
+interface ChipRefreshScreenProps {
+  chipId: string;
+  connectionUrl: string;
+  /** Trash the chips and delete them once the undo window passes. */
+  onDelete: (chipIds: string[]) => Promise<ScheduledDelete>;
+  /** Called once the new chip exists, before the summary is shown. */
+  onRefreshed: (newChipId: string, trashedOld: boolean) => void;
+  onOpenChip: (chipId: string) => void;
+  isFocused: boolean;
+}
+
+function formatCount(n: number | null | undefined): string {
+  return n === null || n === undefined ? "?" : n.toLocaleString();
+}
+
+export function ChipRefreshScreen({
+  chipId,
+  connectionUrl,
+  onDelete,
+  onRefreshed,
+  onOpenChip,
+  isFocused,
+}: ChipRefreshScreenProps) {
+  const client = useClient();
+  const [step, setStep] = useState<Step>("loading");
+  const [definition, setDefinition] = useState<ChipDefinition | null>(null);
+  const [tables, setTables] = useState<string[]>([]);
+  const [databases, setDatabases] = useState<string[]>([]);
+  const [deleteOld, setDeleteOld] = useState(false);
+  const [progress, setProgress] = useState<string | null>(null);
+  const [result, setResult] = useState<RefreshResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const [data, records]: [ChipsResponse, ChipRecord[]] = await Promise.all([
+          client.listChips(),
+          loadChipRecords(connectionUrl),
+        ]);
+        const def = chipDefinition(chipId, data, records.find((r) => r.chipId === chipId));
+        setDefinition(def);
+        setTables([...new Set<string>(
+          data.chips.filter((c: Chip) => c.chip_id === chipId).map((c: Chip) => c.table_name),
+        )]);
+        if (def.kind === "database" && !def.source) {
+          const dbs: DuckDBDatabase[] = await client.getDatabases();
+          setDatabases(dbs.filter((d) => !d.internal).map((d) => d.database_name));
+          setStep("pick-source");
+        } else {
+          setStep("confirm");
+        }
+      } catch (err) {
+        setError(err instanceof Error ? err.message : String(err));
+      }
+    })();
+  }, [chipId, connectionUrl]);
+
+  const refresh = async (def: ChipDefinition) => {
+    setStep("refreshing");
+    setError(null);
+    try {
+      // The old count is informational; a failure just leaves it unknown
+      setProgress("Counting rows in the current chip...");
+      const before = await chipRowCounts(client, chipId, tables)
+        .catch(() => new Map<string, number | null>());
+
+      setProgress("Creating the new chip...");
+      const newChipId = await createFromDefinition(client, def);
+      await saveChipRecord(definitionRecord(def, newChipId, connectionUrl)).catch(() => {});
+
+      setProgress("Counting rows in the new chip...");
+      const after = await chipRowCounts(client, newChipId, tables)
+        .catch(() => new Map<string, number | null>());
+
+      // The old chip goes through the trash like any other deletion, so it can be undone
+      let deleteError: string | null = null;
+      if (deleteOld) {
+        setProgress("Moving the old chip to the trash...");
+        try {
+          await onDelete([chipId]);
+        } catch (err) {
+          deleteError = err instanceof Error ? err.message : String(err);
+        }
+      }
+
+      const trashedOld = deleteOld && deleteError === null;
+      setResult({ newChipId, before, after, deleteError, trashedOld });
+      onRefreshed(newChipId, trashedOld);
+      setStep("done");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+      setStep("confirm");
+    }
+  };
+
+  useInput((input, key) => {
+    if (step === "confirm" && definition) {
+      if (input === "d") {
+        setDeleteOld((d) => !d);
+      } else if (key.return && !definitionProblem(definition)) {
+        refresh(definition);
+      }
+    } else if (step === "done" && result && key.return) {
+      onOpenChip(result.newChipId);
+    }
+  }, { isActive: isFocused });
+
+  if (step === "loading") {
+    return error ? <Text color={brand.error}>{error}</Text> : <Spinner label="Loading chip definition..." />;
+  }
+
+  const def = definition!;
+  const problem = definitionProblem(def);
+
+  return (
+    <Box flexDirection="column" gap={1} paddingY={1}>
+      <Text color={brand.cyan} bold>
+        Refresh Chip: {def.name}
+      </Text>
+
+      <Box flexDirection="column">
+        <Text>
+          <Text color={brand.muted}>Source: </Text>
+          <Text color={brand.text}>
+            {def.kind === "chip"
+              ? `chips ${def.sourceChipIds!.map((id) => id.slice(0, 8)).join(", ")}`
+              : def.kind === "file"
+                ? def.filePath
+                : def.source ?? "unknown"}
+          </Text>
+        </Text>
+        {def.tableName && (
+          <Text>
+            <Text color={brand.muted}>Table: </Text>
+            <Text color={brand.violet}>{def.tableName}</Text>
+          </Text>
+        )}
+        {def.query && (
+          <Text>
+            <Text color={brand.muted}>Query: </Text>
+            <Text color={brand.violet}>{def.query}</Text>
+          </Text>
+        )}
+        {def.partition && (
+          <Text>
+            <Text color={brand.muted}>Partition by: </Text>
+            <Text color={brand.text}>{def.partition.partition_by}</Text>
+          </Text>
+        )}
+        {Object.keys(def.tags).length > 0 && (
+          <Text>
+            <Text color={brand.muted}>Tags: </Text>
+            <Text color={brand.text}>
+              {Object.entries(def.tags).map(([k, v]) => `${k}=${v}`).join(" ")}
+            </Text>
+          </Text>
+        )}
+        {!def.recorded && (
+          <Text color={brand.error}>
+            ⚠ No local record of how this chip was created; partitioning, column renames and
+            storage settings will not be carried over.
+          </Text>
+        )}
+      </Box>
+
+      {step === "pick-source" && (
+        <Box flexDirection="column">
+          <Text color={brand.text}>Source database for this chip's query:</Text>
+          <Select
+            options={databases.map((d) => ({ label: d, value: d }))}
+            onChange={(value) => {
+              setDefinition({ ...def, source: value });
+              setStep("confirm");
+            }}
+          />
+        </Box>
+      )}
+
+      {step === "confirm" && (
+        <Box flexDirection="column">
+          <Text>
+            <Text color={brand.muted}>After success: </Text>
+            <Text color={deleteOld ? brand.error : brand.text}>
+              {deleteOld ? "move the old chip to the trash" : "keep the old chip"}
+            </Text>
+          </Text>
+          {problem ? (
+            <Text color={brand.error}>Can't refresh: {problem}</Text>
+          ) : (
+            <Text color={brand.muted}>⏎:refresh  d:toggle delete old  b:back</Text>
+          )}
+        </Box>
+      )}
+
+      {step === "refreshing" && <Spinner label={progress ?? "Refreshing..."} />}
+
+      {step === "done" && result && (
+        <Box flexDirection="column">
+          <Text color={brand.success}>✓ Created {result.newChipId}</Text>
+          {tables.map((t) => {
+            const before = result.before.get(t);
+            const after = result.after.get(t);
+            const delta = typeof before === "number" && typeof after === "number" ? after - before : null;
+            return (
+              <Text key={t}>
+                <Text color={brand.violet}>{t}  </Text>
+                <Text color={brand.text}>
+                  {formatCount(before)} → {formatCount(after)} rows
+                </Text>
+                {delta !== null && (
+                  <Text color={delta === 0 ? brand.muted : brand.cyan}>
+                    {" "}({delta >= 0 ? "+" : ""}{delta.toLocaleString()})
+                  </Text>
+                )}
+              </Text>
+            );
+          })}
+          {result.trashedOld && (
+            <Text color={brand.muted}>
+              Old chip moved to the trash; it's deleted when the countdown below ends (u to undo).
+            </Text>
+          )}
+          {result.deleteError && (
+            <Text color={brand.error}>Old chip kept; moving it to the trash failed: {result.deleteError}</Text>
+          )}
+          <Text color={brand.muted}>⏎:open new chip  b:back</Text>
+        </Box>
+      )}
+
+      {error && <Text color={brand.error}>{error}</Text>}
+    </Box>
+  );
+}
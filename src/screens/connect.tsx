@@ -1,71 +1,132 @@
-import React, { useState } from "react";
+import React, { useState, useEffect } from "react";
 import { Box, Text, useInput } from "ink";
-import { TextInput, Spinner } from "@inkjs/ui";
-import { DatalatheClient } from "@datalathe/client";
+import { TextInput, Spinner, Select } from "@inkjs/ui";
+import type { DatalatheClient } from "@datalathe/client";
 import { createRequire } from "node:module";
 import { AsciiLogo } from "../components/ascii-logo.js";
 import { brand } from "../theme.js";
+import {
+  createClient,
+  describeConnectionError,
+  withOverrides,
+  type ConnectionSettings,
+} from "../utils/connection.js";
+import { loadProfiles, findProfile, type ConnectionProfile } from "../utils/profiles.js";
 
 const require = createRequire(import.meta.url);
 const { version } = require("../../package.json") as { version: string };
 
-/** Request timeout in ms. Create-chip can take minutes. */
-const CLIENT_TIMEOUT_MS = 10 * 60 * 1000; // 10 minutes
+const MANUAL_URL = "__manual__";
 
 interface ConnectScreenProps {
   initialUrl: string;
-  onConnect: (client: DatalatheClient, url: string) => void;
+  /** Profile named with `--profile`; connects immediately when set. */
+  initialProfile?: string;
+  /** Token and TLS settings from the command line, applied on top of any profile. */
+  overrides?: Partial<ConnectionSettings>;
+  onConnect: (client: DatalatheClient, settings: ConnectionSettings, profileName: string | null) => void;
   onDownload?: () => void;
 }
 
-export function ConnectScreen({ initialUrl, onConnect, onDownload }: ConnectScreenProps) {
-  const [connecting, setConnecting] = useState(false);
+type Step = "loading" | "pick" | "url" | "connecting";
+
+export function ConnectScreen({
+  initialUrl,
+  initialProfile,
+  overrides = {},
+  onConnect,
+  onDownload,
+}: ConnectScreenProps) {
+  const [step, setStep] = useState<Step>("loading");
+  const [profiles, setProfiles] = useState<ConnectionProfile[]>([]);
   const [error, setError] = useState<string | null>(null);
   const [targetUrl, setTargetUrl] = useState(initialUrl);
 
   useInput((input) => {
-    if (!connecting && input === "d" && onDownload) {
+    if ((step === "pick" || step === "url") && input === "d" && onDownload) {
       onDownload();
     }
   });
 
-  const handleSubmit = async (value: string) => {
-    const url = value.trim() || initialUrl;
-    setTargetUrl(url);
-    setConnecting(true);
+  const connect = async (base: ConnectionSettings, profileName: string | null) => {
+    const settings = withOverrides(base, overrides);
+    setTargetUrl(settings.url);
+    setStep("connecting");
     setError(null);
 
     try {
-      const client = new DatalatheClient(url, { timeout: CLIENT_TIMEOUT_MS });
+      const client = createClient(settings);
       await client.getDatabases();
-      onConnect(client, url);
+      onConnect(client, settings, profileName);
     } catch (err) {
-      setError(
-        err instanceof Error ? err.message : "Connection failed",
-      );
-      setConnecting(false);
+      setError(describeConnectionError(err));
+      // A failed profile returns to the picker, a typed URL to the input
+      setStep(profileName ? "pick" : "url");
     }
   };
 
+  useEffect(() => {
+    (async () => {
+      try {
+        const loaded = await loadProfiles();
+        setProfiles(loaded);
+        if (initialProfile) {
+          const profile = await findProfile(initialProfile);
+          await connect(profile, profile.name);
+          return;
+        }
+        setStep(loaded.length > 0 ? "pick" : "url");
+      } catch (err) {
+        setError(err instanceof Error ? err.message : String(err));
+        setStep("url");
+      }
+    })();
+  }, []);
+
+  const handleSubmit = (value: string) => {
+    connect({ url: value.trim() || initialUrl }, null);
+  };
+
+  const handlePick = (value: string) => {
+    const profile = profiles.find((p) => p.name === value);
+    if (profile) connect(profile, profile.name);
+    else setStep("url");
+  };
+
+  const profileOptions = [
+    ...profiles.map((p) => ({ label: `${p.name}  ${p.url}`, value: p.name })),
+    { label: "Enter a URL…", value: MANUAL_URL },
+  ];
+
   return (
     <Box flexDirection="column" alignItems="center" gap={1}>
       <AsciiLogo />
       <Text color={brand.muted} dimColor>v{version}</Text>
       <Box flexDirection="column" gap={1} paddingTop={1} alignItems="center">
-        <Text color={brand.text}>
-          Enter DataLathe URL:
-        </Text>
-        {connecting ? (
-          <Spinner label={`Connecting to ${targetUrl}...`} />
-        ) : (
-          <Box>
-            <Text color={brand.violet}>{"❯ "}</Text>
-            <TextInput
-              placeholder={initialUrl}
-              defaultValue={initialUrl}
-              onSubmit={handleSubmit}
-            />
-          </Box>
+        {step === "loading" && <Spinner label="Loading profiles..." />}
+        {step === "connecting" && <Spinner label={`Connecting to ${targetUrl}...`} />}
+        {step === "pick" && (
+          <>
+            <Text color={brand.text}>
+              Choose a connection:
+            </Text>
+            <Select options={profileOptions} onChange={handlePick} />
+          </>
+        )}
+        {step === "url" && (
+          <>
+            <Text color={brand.text}>
+              Enter DataLathe URL:
+            </Text>
+            <Box>
+              <Text color={brand.violet}>{"❯ "}</Text>
+              <TextInput
+                placeholder={initialUrl}
+                defaultValue={initialUrl}
+                onSubmit={handleSubmit}
+              />
+            </Box>
+          </>
         )}
         {error && (
           <Text color={brand.error}>{error}</Text>
@@ -6,6 +6,7 @@ import { useAsync } from "../hooks/use-async.js";
 import { useTerminalSize } from "../hooks/use-terminal-size.js";
 import { brand } from "../theme.js";
 import { chipLabel, chipHeader, chipDisplayConfig } from "../utils/chip-options.js";
+import { saveChipRecord } from "../utils/chip-records.js";
 
 type Step =
   | "select-chips"
@@ -20,6 +21,8 @@ type Step =
 const INPUT_ACTIVE_STEPS: Step[] = ["query", "table-name", "chip-name", "tags"];
 
 interface CreateChipFromChipScreenProps {
+  /** Engine URL, recorded with the new chip's lineage. */
+  connectionUrl: string;
   defaultChipIds?: string[];
   onDone: (chipId: string) => void;
   onBack: () => void;
@@ -28,6 +31,7 @@ interface CreateChipFromChipScreenProps {
 }
 
 export function CreateChipFromChipScreen({
+  connectionUrl,
   defaultChipIds,
   onDone,
   onBack,
@@ -84,6 +88,16 @@ export function CreateChipFromChipScreen({
       if (tags && id) {
         await client.addChipTags(id, tags);
       }
+      // Lineage is best-effort; the chip exists either way
+      await saveChipRecord({
+        chipId: id,
+        connectionUrl,
+        createdAt: Math.floor(Date.now() / 1000),
+        name,
+        sourceChipIds: selectedChipIds,
+        query: query || undefined,
+        tableName: tableName || undefined,
+      }).catch(() => {});
       setChipId(id);
       setStep("done");
     } catch (err) {
@@ -4,7 +4,9 @@ import { TextInput, Spinner, Select } from "@inkjs/ui";
 import { useClient } from "../hooks/use-client.js";
 import { useAsync } from "../hooks/use-async.js";
 import { FilePathInput } from "../components/file-path-input.js";
+import { SqlEditor } from "../components/sql-editor.js";
 import { brand } from "../theme.js";
+import { saveChipRecord } from "../utils/chip-records.js";
 import type { DuckDBDatabase, Partition, S3StorageConfig } from "@datalathe/client";
 
 type Step =
@@ -45,6 +47,8 @@ const INPUT_ACTIVE_STEPS: Step[] = [
 ];
 
 interface CreateChipScreenProps {
+  /** Engine URL, recorded with the chip's definition. */
+  connectionUrl: string;
   initialSource?: string;
   initialTable?: string;
   onDone: (chipId: string) => void;
@@ -53,6 +57,7 @@ interface CreateChipScreenProps {
 }
 
 export function CreateChipScreen({
+  connectionUrl,
   initialSource,
   initialTable,
   onDone,
@@ -158,6 +163,17 @@ export function CreateChipScreen({
       if (tags && id) {
         await client.addChipTags(id, tags);
       }
+      // Kept so the chip can be refreshed later; the chip exists either way
+      await saveChipRecord({
+        chipId: id,
+        connectionUrl,
+        createdAt: Math.floor(Date.now() / 1000),
+        name,
+        ...(sourceType === "file" ? { filePath } : { source, query, tableName }),
+        partition,
+        columnReplace,
+        storageConfig,
+      }).catch(() => {});
       setChipId(id);
       setStep("done");
     } catch (err) {
@@ -222,18 +238,17 @@ export function CreateChipScreen({
             Database: {source} · Table: {tableName}
           </Text>
           <Text color={brand.text}>SQL query:</Text>
-          <Box>
-            <Text color={brand.violet}>{"❯ "}</Text>
-            <TextInput
-              placeholder={`SELECT * FROM ${tableName}`}
-              onSubmit={(v) => {
-                if (v.trim()) {
-                  setQuery(v);
-                  setStep("chip-name");
-                }
-              }}
-            />
-          </Box>
+          <SqlEditor
+            placeholder={`SELECT * FROM ${tableName}`}
+            defaultValue={query}
+            submitLabel="next"
+            onSubmit={(v) => {
+              if (v.trim()) {
+                setQuery(v);
+                setStep("chip-name");
+              }
+            }}
+          />
           {error && <Text color={brand.error}>{error}</Text>}
         </Box>
       )}
@@ -335,16 +350,15 @@ export function CreateChipScreen({
         <Box flexDirection="column" gap={1}>
           <Text color={brand.muted}>Partition by: {partitionBy}</Text>
           <Text color={brand.text}>Partition query (SQL to derive values):</Text>
-          <Box>
-            <Text color={brand.violet}>{"❯ "}</Text>
-            <TextInput
-              placeholder="SELECT DISTINCT col FROM table"
-              onSubmit={(v) => {
-                if (v.trim()) setPartitionQuery(v.trim());
-                setStep("column-replace");
-              }}
-            />
-          </Box>
+          <SqlEditor
+            placeholder="SELECT DISTINCT col FROM table"
+            defaultValue={partitionQuery}
+            submitLabel="next"
+            onSubmit={(v) => {
+              if (v.trim()) setPartitionQuery(v.trim());
+              setStep("column-replace");
+            }}
+          />
         </Box>
       )}
 
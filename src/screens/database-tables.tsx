@@ -1,4 +1,4 @@
-import React, { useState } from "react";
+import React, { useState, useEffect } from "react";
 import { Box, Text, useInput } from "ink";
 import { Spinner, Select } from "@inkjs/ui";
 import { useClient } from "../hooks/use-client.js";
@@ -13,6 +13,7 @@ interface DatabaseTablesScreenProps {
   databaseName: string;
   onCreateChip: (databaseName: string, tableName: string) => void;
   onBack: () => void;
+  onInputActive?: (active: boolean) => void;
   isFocused: boolean;
 }
 
@@ -30,6 +31,7 @@ export function DatabaseTablesScreen({
   databaseName,
   onCreateChip,
   onBack,
+  onInputActive,
   isFocused,
 }: DatabaseTablesScreenProps) {
   const { columns: termCols, rows: termRows } = useTerminalSize();
@@ -39,10 +41,17 @@ export function DatabaseTablesScreen({
     [databaseName],
   );
   const [selectedTable, setSelectedTable] = useState<string | null>(null);
+  const [tableInputActive, setTableInputActive] = useState(false);
+
+  // The column table's filter prompt and cell cursor consume letter keys
+  useEffect(() => {
+    onInputActive?.(tableInputActive);
+    return () => onInputActive?.(false);
+  }, [tableInputActive, onInputActive]);
 
   // Handle keys when viewing a specific table's columns
   useInput((input, key) => {
-    if (!selectedTable) return;
+    if (!selectedTable || tableInputActive) return;
     if (key.leftArrow) {
       setSelectedTable(null);
     }
@@ -95,6 +104,7 @@ export function DatabaseTablesScreen({
           viewWidth={termCols - Math.min(50, Math.floor(termCols * 0.38)) - 4}
           viewHeight={termRows - 12}
           isActive={isFocused}
+          onInputActive={setTableInputActive}
         />
         <Box gap={2}>
           <Text color={brand.muted}>←:back to tables</Text>
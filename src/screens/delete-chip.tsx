@@ -2,6 +2,7 @@ import React, { useState } from "react";
 import { Box, Text, useInput } from "ink";
 import { Select, Spinner } from "@inkjs/ui";
 import type { Chip } from "@datalathe/client";
+import type { ScheduledDelete } from "../hooks/use-soft-delete.js";
 import { useClient } from "../hooks/use-client.js";
 import { useAsync } from "../hooks/use-async.js";
 import { useTerminalSize } from "../hooks/use-terminal-size.js";
@@ -17,12 +18,15 @@ interface ChipOption {
 }
 
 interface DeleteChipScreenProps {
+  /** Trash the chips and delete them once the undo window passes. */
+  onDelete: (chipIds: string[]) => Promise<ScheduledDelete>;
   onDone: () => void;
   onBack: () => void;
   isFocused: boolean;
 }
 
 export function DeleteChipScreen({
+  onDelete,
   onDone,
   onBack,
   isFocused,
@@ -41,7 +45,7 @@ export function DeleteChipScreen({
     if (phase === "confirm") {
       if (_input === "y") {
         setPhase("deleting");
-        client.deleteChip(selectedChipId!).then(() => {
+        onDelete([selectedChipId!]).then(() => {
           setPhase("done");
         }).catch((err: unknown) => {
           setPhase("error");
@@ -128,7 +132,8 @@ export function DeleteChipScreen({
             </Text>
           )}
           <Text color={brand.muted}>
-            This will remove the chip metadata, local files, and S3 objects.
+            This will remove the chip metadata, local files, and S3 objects. Its
+            definition is kept in the trash so it can be re-created.
           </Text>
           <Text color={brand.error} bold>
             y:confirm  n:cancel
@@ -142,7 +147,8 @@ export function DeleteChipScreen({
             Delete chip {selectedChipId?.slice(0, 8)}…?
           </Text>
           <Text color={brand.muted}>
-            This will remove the chip metadata, local files, and S3 objects.
+            This will remove the chip metadata, local files, and S3 objects. Its
+            definition is kept in the trash so it can be re-created.
           </Text>
           <Text color={brand.error} bold>
             y:confirm  n:cancel
@@ -150,11 +156,14 @@ export function DeleteChipScreen({
         </Box>
       )}
 
-      {phase === "deleting" && <Spinner label="Deleting chip..." />}
+      {phase === "deleting" && <Spinner label="Moving chip to trash..." />}
 
       {phase === "done" && (
         <Box flexDirection="column" gap={1}>
-          <Text color={brand.success} bold>Chip deleted successfully.</Text>
+          <Text color={brand.success} bold>Chip moved to trash.</Text>
+          <Text color={brand.muted}>
+            It's deleted once the countdown below runs out; press u before then to undo.
+          </Text>
           <Text color={brand.muted}>Press b to go back.</Text>
         </Box>
       )}
@@ -1,7 +1,8 @@
 import React, { useState, useEffect } from "react";
 import { Box, Text, useInput } from "ink";
-import { TextInput, Spinner, Select } from "@inkjs/ui";
+import { Spinner, Select } from "@inkjs/ui";
 import { useClient } from "../hooks/use-client.js";
+import { SqlEditor } from "../components/sql-editor.js";
 import { brand } from "../theme.js";
 
 type Step = "transform-option" | "sql" | "extracting" | "results";
@@ -97,13 +98,11 @@ export function ExtractTablesScreen({ onBack, onInputActive, isFocused }: Extrac
             <Text color={brand.text}>Enter SQL to analyze:</Text>
             {transform && <Text color={brand.violet}>[transform: on]</Text>}
           </Box>
-          <Box>
-            <Text color={brand.violet}>{"❯ "}</Text>
-            <TextInput
-              placeholder="SELECT * FROM ..."
-              onSubmit={handleExtract}
-            />
-          </Box>
+          <SqlEditor
+            defaultValue={query}
+            onSubmit={handleExtract}
+            submitLabel="extract"
+          />
         </Box>
         {error && <Text color={brand.error}>{error}</Text>}
       </Box>
@@ -25,6 +25,11 @@ const menuItems = [
     value: "query" as Screen,
     description: "Run SQL queries against chips",
   },
+  {
+    label: "Query History",
+    value: "query-history" as Screen,
+    description: "Search and re-run previous queries",
+  },
   {
     label: "Extract Tables",
     value: "extract-tables" as Screen,
@@ -35,6 +40,31 @@ const menuItems = [
     value: "delete-chip" as Screen,
     description: "Remove a chip and its associated data",
   },
+  {
+    label: "Bulk Actions",
+    value: "bulk-actions" as Screen,
+    description: "Delete, tag, refresh or export the chips checked in the sidebar",
+  },
+  {
+    label: "Trash",
+    value: "trash" as Screen,
+    description: "Re-create recently deleted chips",
+  },
+  {
+    label: "Storage & Expiry",
+    value: "storage-overview" as Screen,
+    description: "See where chips are stored and which expire soon",
+  },
+  {
+    label: "Save Connection as Profile",
+    value: "save-profile" as Screen,
+    description: "Reconnect to this engine by name next time",
+  },
+  {
+    label: "Switch Connection",
+    value: "connect" as Screen,
+    description: "Disconnect and connect to another engine (Ctrl+E)",
+  },
   {
     label: "Download Binaries",
     value: "download-binaries" as Screen,
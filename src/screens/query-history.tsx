@@ -0,0 +1,167 @@
+import React, { useState, useEffect } from "react";
+import { Box, Text, useInput } from "ink";
+import { Spinner } from "@inkjs/ui";
+import { useAsync } from "../hooks/use-async.js";
+import { useTerminalSize } from "../hooks/use-terminal-size.js";
+import { useClipboard } from "../hooks/use-clipboard.js";
+import { brand } from "../theme.js";
+import { formatDate, fit } from "../utils/chip-options.js";
+import { loadHistory, searchHistory, type QueryHistoryEntry } from "../utils/query-history.js";
+
+interface QueryHistoryScreenProps {
+  /** Only this engine's history is listed. */
+  connectionUrl: string;
+  /** Re-run the entry against the chips it originally ran on. */
+  onRun: (entry: QueryHistoryEntry) => void;
+  /** Load the entry's SQL and pick a different set of chips first. */
+  onRunWithOtherChips: (entry: QueryHistoryEntry) => void;
+  onBack: () => void;
+  onInputActive?: (active: boolean) => void;
+  isFocused: boolean;
+}
+
+function outcomeLabel(entry: QueryHistoryEntry): string {
+  if (entry.error) return "error";
+  const rows = entry.rowCount !== null ? `${entry.rowCount} rows` : "";
+  const ms = entry.totalMs !== null ? `${entry.totalMs}ms` : "";
+  return [rows, ms].filter(Boolean).join(" · ");
+}
+
+export function QueryHistoryScreen({
+  connectionUrl,
+  onRun,
+  onRunWithOtherChips,
+  onBack,
+  onInputActive,
+  isFocused,
+}: QueryHistoryScreenProps) {
+  const { columns: termCols, rows: termRows } = useTerminalSize();
+  const { data, loading } = useAsync(() => loadHistory(connectionUrl), [connectionUrl]);
+  const [search, setSearch] = useState("");
+  const [cursor, setCursor] = useState(0);
+  const [scrollOffset, setScrollOffset] = useState(0);
+  const { copyStatus, copy } = useClipboard();
+
+  // The search box consumes letter keys, so the whole screen is input-active
+  useEffect(() => {
+    onInputActive?.(true);
+    return () => onInputActive?.(false);
+  }, [onInputActive]);
+
+  const matches = searchHistory(data ?? [], search);
+
+  useInput((input, key) => {
+    if (key.escape) {
+      onBack();
+      return;
+    }
+    if (key.upArrow) {
+      setCursor((c) => Math.max(0, c - 1));
+      return;
+    }
+    if (key.downArrow) {
+      setCursor((c) => Math.min(matches.length - 1, c + 1));
+      return;
+    }
+    if (key.return) {
+      const entry = matches[cursor];
+      if (entry) onRun(entry);
+      return;
+    }
+    if (key.ctrl && input === "o") {
+      const entry = matches[cursor];
+      if (entry) onRunWithOtherChips(entry);
+      return;
+    }
+    if (key.ctrl && input === "y") {
+      const entry = matches[cursor];
+      if (!entry) return;
+      copy(entry.sql, "SQL");
+      return;
+    }
+    if (key.backspace || key.delete) {
+      setSearch((s) => s.slice(0, -1));
+      setCursor(0);
+      return;
+    }
+    if (key.ctrl || key.meta || key.tab) return;
+    if (input) {
+      setSearch((s) => s + input);
+      setCursor(0);
+    }
+  }, { isActive: isFocused });
+
+  // Each entry takes 2 rows (SQL + details)
+  const maxVisible = Math.max(1, Math.floor((termRows - 14) / 2));
+
+  useEffect(() => {
+    setScrollOffset((prev) => {
+      if (cursor >= prev + maxVisible) return cursor - maxVisible + 1;
+      if (cursor < prev) return cursor;
+      return prev;
+    });
+  }, [cursor, maxVisible]);
+
+  if (loading) {
+    return <Spinner label="Loading history..." />;
+  }
+
+  const sidebarWidth = Math.min(50, Math.floor(termCols * 0.38));
+  const sqlWidth = Math.max(20, termCols - sidebarWidth - 8);
+  const visible = matches.slice(scrollOffset, scrollOffset + maxVisible);
+
+  return (
+    <Box flexDirection="column" gap={1} paddingY={1}>
+      <Text color={brand.cyan} bold>
+        Query History
+      </Text>
+      <Box>
+        <Text color={brand.violet}>{"search❯ "}</Text>
+        <Text color={brand.text}>{search}</Text>
+        <Text backgroundColor={brand.violet}> </Text>
+        <Text color={brand.muted}>
+          {"  "}{matches.length}/{data?.length ?? 0}
+        </Text>
+      </Box>
+      {matches.length === 0 ? (
+        <Text color={brand.muted}>
+          {data && data.length > 0 ? "No matching queries" : "No queries run yet"}
+        </Text>
+      ) : (
+        <Box flexDirection="column">
+          {visible.map((entry, i) => {
+            const globalIdx = scrollOffset + i;
+            const isCursor = globalIdx === cursor;
+            const oneLine = entry.sql.replace(/\s+/g, " ");
+            return (
+              <Box key={`${entry.executedAt}-${globalIdx}`} flexDirection="column">
+                <Text>
+                  <Text color={isCursor ? brand.cyan : brand.muted}>{isCursor ? "> " : "  "}</Text>
+                  <Text color={isCursor ? brand.cyan : brand.text}>{fit(oneLine, sqlWidth)}</Text>
+                </Text>
+                <Text>
+                  <Text color={brand.muted}>{"    "}{formatDate(entry.executedAt)}</Text>
+                  <Text color={brand.violet}>
+                    {" · "}{entry.chipIds.length} chip{entry.chipIds.length !== 1 ? "s" : ""}
+                  </Text>
+                  {entry.transform && <Text color={brand.violet}>{" · transform"}</Text>}
+                  <Text color={entry.error ? brand.error : brand.muted}>
+                    {" · "}{outcomeLabel(entry)}
+                  </Text>
+                </Text>
+              </Box>
+            );
+          })}
+        </Box>
+      )}
+      <Box gap={2}>
+        <Text color={brand.muted}>
+          ↑↓:select  ⏎:re-run  Ctrl+O:run on other chips  Ctrl+Y:copy sql  Esc:back
+        </Text>
+        {copyStatus && (
+          <Text color={copyStatus.ok ? brand.success : brand.error}>{copyStatus.message}</Text>
+        )}
+      </Box>
+    </Box>
+  );
+}
@@ -1,136 +1,433 @@
-import React, { useState, useEffect, useCallback } from "react";
-import { execSync } from "child_process";
+import React, { useState, useEffect } from "react";
 import { Box, Text, useInput } from "ink";
-import { TextInput, Spinner, MultiSelect, Select } from "@inkjs/ui";
+import { Spinner, MultiSelect, Select } from "@inkjs/ui";
 import { DatalatheResultSet } from "@datalathe/client";
 import type { SchemaField, ReportTiming } from "@datalathe/client";
 import { useClient } from "../hooks/use-client.js";
 import { useAsync } from "../hooks/use-async.js";
 import { useTerminalSize } from "../hooks/use-terminal-size.js";
+import { useClipboard } from "../hooks/use-clipboard.js";
 import { TableView } from "../components/table-view.js";
+import { SqlEditor } from "../components/sql-editor.js";
+import { FilePathInput } from "../components/file-path-input.js";
 import { ErrorDisplay } from "../components/error-display.js";
 import { brand } from "../theme.js";
-import { formatDate, chipLabel, chipHeader, chipDisplayConfig } from "../utils/chip-options.js";
+import { formatDate, chipLabel, chipHeader, chipDisplayConfig, chipsForId } from "../utils/chip-options.js";
+import { loadHistory, appendHistory, recallList } from "../utils/query-history.js";
+import {
+  EXPORT_FORMATS,
+  isExistingFileError,
+  writeExport,
+  type ExportFormat,
+} from "../utils/export.js";
+import { resolveUserPath } from "../utils/paths.js";
+import { sqlCompletions, type CompletionContext } from "../utils/sql-completion.js";
+import {
+  splitStatements,
+  quoteIdent,
+  hasLimitClause,
+  pageQuery,
+  countQuery,
+  hasMoreRows,
+  describeWindow,
+  type ResultWindow,
+} from "../utils/sql.js";
 
-type Step = "select-chips" | "transform-option" | "sql" | "executing" | "results";
+type Step =
+  | "select-chips"
+  | "transform-option"
+  | "sql"
+  | "executing"
+  | "results"
+  | "export-format"
+  | "export-path"
+  | "export-overwrite"
+  | "exporting";
+
+/** Steps that consume letter keys or must not be interrupted by global 'b'. */
+const INPUT_ACTIVE_STEPS: Step[] = ["sql", "export-format", "export-path", "export-overwrite"];
+
+/** One statement's result, shown in its own tab on the results step. */
+interface ResultTab {
+  sql: string;
+  /** False when the statement has its own LIMIT and is run as written. */
+  paginated: boolean;
+  window: ResultWindow;
+  rows: Record<string, unknown>[];
+  schema: SchemaField[];
+  transformedQuery: string | null;
+  error: string | null;
+}
+
+interface StatementRequest {
+  sql: string;
+  offset: number;
+  /** null fetches the full result. */
+  limit: number | null;
+}
+
+const TAB_LABEL_WIDTH = 18;
+
+function tabLabel(tab: ResultTab, index: number): string {
+  const oneLine = tab.sql.replace(/\s+/g, " ");
+  const text = oneLine.length > TAB_LABEL_WIDTH ? oneLine.slice(0, TAB_LABEL_WIDTH - 1) + "…" : oneLine;
+  return ` ${index + 1}${tab.error ? "!" : ""} ${text} `;
+}
 
 interface QueryScreenProps {
+  /** Engine URL, used to keep query history per connection. */
+  connectionUrl: string;
   defaultChipIds?: string[];
+  /** Rows fetched per page for queries without their own LIMIT. */
+  pageSize: number;
+  /** SQL to pre-fill the editor with, e.g. when re-running from history. */
+  initialSql?: string;
+  /** When set, the transform prompt is skipped and this value is used. */
+  initialTransform?: boolean;
+  /** Execute `initialSql` against `defaultChipIds` immediately on mount. */
+  autoRun?: boolean;
+  onOpenHistory?: () => void;
   onBack: () => void;
   onInputActive?: (active: boolean) => void;
   isFocused: boolean;
 }
 
-export function QueryScreen({ defaultChipIds, onBack, onInputActive, isFocused }: QueryScreenProps) {
+export function QueryScreen({
+  connectionUrl,
+  defaultChipIds,
+  pageSize,
+  initialSql,
+  initialTransform,
+  autoRun,
+  onOpenHistory,
+  onBack,
+  onInputActive,
+  isFocused,
+}: QueryScreenProps) {
   const { columns: termCols, rows: termRows } = useTerminalSize();
   const client = useClient();
   const { data: chipsData, loading: chipsLoading, error: chipsError, refetch } =
     useAsync(() => client.listChips(), []);
 
   const initialIds = defaultChipIds && defaultChipIds.length > 0 ? defaultChipIds : [];
-  const [step, setStep] = useState<Step>(initialIds.length > 0 ? "transform-option" : "select-chips");
+  const transformPreset = initialTransform !== undefined;
+  const afterChipsStep: Step = transformPreset ? "sql" : "transform-option";
+  const [step, setStep] = useState<Step>(initialIds.length > 0 ? afterChipsStep : "select-chips");
   const [selectedChipIds, setSelectedChipIds] = useState<string[]>(initialIds);
-  const [transformQuery, setTransformQuery] = useState(false);
-  const [transformedQuery, setTransformedQuery] = useState<string | null>(null);
-  const [results, setResults] = useState<Record<string, unknown>[] | null>(null);
-  const [resultSchema, setResultSchema] = useState<SchemaField[]>([]);
-  const [resultInfo, setResultInfo] = useState<string>("");
+  const [transformQuery, setTransformQuery] = useState(initialTransform ?? false);
+  const [tabs, setTabs] = useState<ResultTab[]>([]);
+  const [activeTab, setActiveTab] = useState(0);
   const [showMetadata, setShowMetadata] = useState(false);
   const [timing, setTiming] = useState<ReportTiming | null>(null);
-  const [copied, setCopied] = useState(false);
+  const [sql, setSql] = useState(initialSql ?? "");
+  const [history, setHistory] = useState<string[]>([]);
+  const { copyStatus, copy } = useClipboard();
+  const [exportFormat, setExportFormat] = useState<ExportFormat>("csv");
+  const [exportPath, setExportPath] = useState("");
+  const [exportStatus, setExportStatus] = useState<{ ok: boolean; message: string } | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [confirmFetchAll, setConfirmFetchAll] = useState(false);
+  /** True while the results table owns the keyboard (filter prompt, cell cursor). */
+  const [tableInputActive, setTableInputActive] = useState(false);
 
-  const copyChipIds = useCallback(() => {
-    const json = JSON.stringify(selectedChipIds);
+  const tab: ResultTab | null = tabs[activeTab] ?? null;
+
+  // Table and column names of the selected chips, for SQL completion.
+  // Columns come from a zero-row SELECT per table in one report.
+  const { data: completionContext } = useAsync(async (): Promise<CompletionContext> => {
+    const { index } = chipDisplayConfig(chipsData, 0);
+    const tables = [...new Set(
+      selectedChipIds.flatMap((id) => chipsForId(id, index).map((c) => c.table_name)),
+    )];
+    const columns: CompletionContext["columns"] = new Map();
+    if (tables.length === 0) return { tables, columns };
     try {
-      execSync("pbcopy", { input: json });
-      setCopied(true);
-      setTimeout(() => setCopied(false), 2000);
-    } catch {}
-  }, [selectedChipIds]);
+      const report = await client.generateReport(
+        selectedChipIds,
+        tables.map((t) => `SELECT * FROM ${quoteIdent(t)} LIMIT 0`),
+      );
+      tables.forEach((t, i) => {
+        const schema = report.results.get(i)?.schema ?? [];
+        columns.set(t, schema.map((f: SchemaField) => ({ name: f.name, dataType: f.data_type })));
+      });
+    } catch {
+      // Table names still complete without column information
+    }
+    return { tables, columns };
+  }, [chipsData, selectedChipIds.join(",")]);
 
-  // Only mark TextInput steps as input-active (blocks global keys like 'b' and 'q').
+  // Only mark text-entry steps as input-active (blocks global keys like 'b' and 'q').
   // Select/MultiSelect steps use arrow keys and don't need this.
   useEffect(() => {
-    onInputActive?.(step === "sql");
+    onInputActive?.(INPUT_ACTIVE_STEPS.includes(step) || tableInputActive);
     return () => onInputActive?.(false);
-  }, [step, onInputActive]);
+  }, [step, tableInputActive, onInputActive]);
+
+  useEffect(() => {
+    loadHistory(connectionUrl).then((entries) => setHistory(recallList(entries)));
+  }, [connectionUrl]);
+
+  const recordHistory = (
+    rawQuery: string,
+    outcome: { rowCount: number | null; totalMs: number | null; error: string | null },
+  ) => {
+    appendHistory({
+      sql: rawQuery.trim(),
+      chipIds: selectedChipIds,
+      transform: transformQuery,
+      ...outcome,
+      executedAt: Math.floor(Date.now() / 1000),
+      connectionUrl,
+    })
+      .then((entries) => setHistory(recallList(entries)))
+      .catch(() => {});
+  };
+
+  /**
+   * Run statements as one report. Statements without their own LIMIT get a
+   * LIMIT/OFFSET window, plus a count query (queued after all the page
+   * queries) so the status line can show the full result size.
+   */
+  const runStatements = async (requests: StatementRequest[]) => {
+    const pageable = requests.map((r) => !hasLimitClause(r.sql));
+    const queries = requests.map((r, i) =>
+      pageable[i] && r.limit !== null ? pageQuery(r.sql, r.limit, r.offset) : r.sql,
+    );
+    const countIndexes = new Map<number, number>();
+    requests.forEach((r, i) => {
+      if (pageable[i]) {
+        countIndexes.set(i, queries.length);
+        queries.push(countQuery(r.sql));
+      }
+    });
+
+    const report = await client.generateReport(
+      selectedChipIds,
+      queries,
+      undefined,
+      transformQuery || undefined,
+      transformQuery || undefined,
+    );
+
+    const newTabs = requests.map((r, i): ResultTab => {
+      const entry = report.results.get(i);
+      const paginated = pageable[i]!;
+      const transformedQuery = entry?.transformed_query ?? null;
+      if (!entry || entry.error) {
+        return {
+          sql: r.sql,
+          paginated,
+          window: { offset: r.offset, limit: r.limit, total: null },
+          rows: [],
+          schema: [],
+          transformedQuery,
+          error: entry?.error ?? "No results returned",
+        };
+      }
+
+      // The count is best-effort; a failure just leaves the total unknown
+      const countIndex = countIndexes.get(i);
+      const countEntry = countIndex !== undefined ? report.results.get(countIndex) : undefined;
+      const countRow = countEntry && !countEntry.error
+        ? new DatalatheResultSet(countEntry).toArray()[0]
+        : undefined;
+      const total = countRow ? Number(countRow.total) : NaN;
+
+      return {
+        sql: r.sql,
+        paginated,
+        window: {
+          offset: paginated ? r.offset : 0,
+          limit: paginated ? r.limit : null,
+          total: Number.isFinite(total) ? total : null,
+        },
+        rows: new DatalatheResultSet(entry).toArray(),
+        schema: entry.schema ?? [],
+        transformedQuery,
+        error: null,
+      };
+    });
+
+    return { tabs: newTabs, timing: report.timing };
+  };
 
   const handleExecute = async (rawQuery: string) => {
-    if (!rawQuery.trim()) return;
+    const statements = splitStatements(rawQuery);
+    if (statements.length === 0) return;
     setStep("executing");
     setError(null);
-    setTransformedQuery(null);
-
-    // Auto-append LIMIT to prevent OOM on large result sets
-    const DEFAULT_LIMIT = 200;
-    const hasLimit = /\bLIMIT\s+\d+/i.test(rawQuery);
-    const query = hasLimit ? rawQuery : `${rawQuery.replace(/;\s*$/, "")} LIMIT ${DEFAULT_LIMIT}`;
+    setConfirmFetchAll(false);
 
     try {
-      const report = await client.generateReport(
-        selectedChipIds,
-        [query],
-        undefined,
-        transformQuery || undefined,
-        transformQuery || undefined,
+      const result = await runStatements(
+        statements.map((sql) => ({ sql, offset: 0, limit: pageSize })),
       );
-      setTiming(report.timing);
-      const entry = report.results.get(0);
-
-      if (!entry) {
-        setError("No results returned");
-        setStep("sql");
-        return;
-      }
+      setTiming(result.timing);
+      const failed = result.tabs
+        .map((t, i) => ({ error: t.error, index: i }))
+        .filter((t) => t.error !== null);
+      const allFailed = failed.length === result.tabs.length;
+      recordHistory(rawQuery, {
+        rowCount: allFailed ? null : result.tabs.reduce((n, t) => n + t.rows.length, 0),
+        totalMs: result.timing?.total_ms ?? null,
+        error: failed[0]?.error ?? null,
+      });
 
-      if (entry.error) {
-        setError(entry.error);
+      // With nothing to show, return to the editor so the SQL can be fixed
+      if (allFailed) {
+        setError(
+          failed.length === 1
+            ? failed[0]!.error
+            : failed.map((f) => `[${f.index + 1}] ${f.error}`).join("\n"),
+        );
         setStep("sql");
         return;
       }
 
-      if (entry.transformed_query) {
-        setTransformedQuery(entry.transformed_query);
-      }
-
-      const rs = new DatalatheResultSet(entry);
-      const rows = rs.toArray();
-      const schema = entry.schema ?? [];
-      setResults(rows);
-      setResultSchema(schema);
+      setTabs(result.tabs);
+      setActiveTab(0);
       setShowMetadata(false);
-      const limitNote = !hasLimit && rows.length >= DEFAULT_LIMIT ? ` (limited to ${DEFAULT_LIMIT})` : "";
-      setResultInfo(
-        `${schema.length} columns · ${rows.length} rows${limitNote}`,
-      );
+      setExportStatus(null);
       setStep("results");
     } catch (err) {
-      setError(err instanceof Error ? err.message : "Query failed");
+      const message = err instanceof Error ? err.message : "Query failed";
+      recordHistory(rawQuery, { rowCount: null, totalMs: null, error: message });
+      setError(message);
       setStep("sql");
     }
   };
 
+  /** Re-fetch the active tab with a different window, keeping its rows on failure. */
+  const fetchPage = async (offset: number, limit: number | null) => {
+    if (!tab) return;
+    const index = activeTab;
+    setStep("executing");
+    setError(null);
+    setConfirmFetchAll(false);
+
+    try {
+      const result = await runStatements([{ sql: tab.sql, offset, limit }]);
+      const next = result.tabs[0]!;
+      setTiming(result.timing);
+      if (next.error) {
+        setError(next.error);
+      } else {
+        setTabs((prev) => prev.map((t, i) => (i === index ? next : t)));
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Query failed");
+    }
+    setStep("results");
+  };
+
+  useEffect(() => {
+    if (autoRun && initialSql && initialIds.length > 0) {
+      handleExecute(initialSql);
+    }
+  }, []); // eslint-disable-line react-hooks/exhaustive-deps
+
+  // Ctrl+R opens the searchable history while editing SQL
+  useInput(
+    (input, key) => {
+      if (key.ctrl && input === "r") onOpenHistory?.();
+    },
+    { isActive: isFocused && step === "sql" && onOpenHistory !== undefined },
+  );
+
+  const handleExport = async (filePath: string, overwrite = false) => {
+    if (!tab) return;
+    setExportPath(filePath);
+    setStep("exporting");
+    try {
+      const written = await writeExport(filePath, tab.rows, tab.schema, exportFormat, overwrite);
+      setExportStatus({ ok: true, message: `Exported ${tab.rows.length} rows to ${written}` });
+    } catch (err) {
+      if (isExistingFileError(err)) {
+        setStep("export-overwrite");
+        return;
+      }
+      setExportStatus({
+        ok: false,
+        message: `Export failed: ${err instanceof Error ? err.message : String(err)}`,
+      });
+    }
+    setStep("results");
+  };
+
   // Post-results key handling
   useInput(
-    (input) => {
-      if (step !== "results") return;
+    (input, key) => {
+      if (step === "export-format" || step === "export-path") {
+        if (key.escape) setStep("results");
+        return;
+      }
+      if (step === "export-overwrite") {
+        if (input === "y") {
+          handleExport(exportPath, true);
+        } else if (input === "n" || key.escape) {
+          setStep("export-path");
+        }
+        return;
+      }
+      if (step !== "results" || tableInputActive) return;
+      if (confirmFetchAll) {
+        if (input === "y") {
+          fetchPage(0, null);
+        } else if (input === "n" || key.escape) {
+          setConfirmFetchAll(false);
+        }
+        return;
+      }
+      if (input === "]" || input === "[") {
+        const delta = input === "]" ? 1 : -1;
+        setActiveTab((i) => (i + delta + tabs.length) % tabs.length);
+        setConfirmFetchAll(false);
+        setError(null);
+      }
+      if (/^[1-9]$/.test(input) && Number(input) <= tabs.length) {
+        setActiveTab(Number(input) - 1);
+        setConfirmFetchAll(false);
+        setError(null);
+      }
+      if (tab && tab.paginated && !tab.error && tab.window.limit !== null) {
+        const limit = tab.window.limit;
+        const offset = tab.window.offset;
+        const hasNext = hasMoreRows(tab.window, tab.rows.length);
+        const hasPrev = offset > 0;
+        if (input === "n" && hasNext) {
+          fetchPage(offset + limit, limit);
+        }
+        if (input === "p" && hasPrev) {
+          fetchPage(Math.max(0, offset - limit), limit);
+        }
+        if (input === "a" && (hasNext || hasPrev)) {
+          setConfirmFetchAll(true);
+        }
+      }
+      if (input === "e" && tab && !tab.error) {
+        setExportStatus(null);
+        setExportPath("");
+        setStep("export-format");
+      }
       if (input === "m") {
         setShowMetadata((prev) => !prev);
       }
       if (input === "r") {
-        setResults(null);
+        setTabs([]);
+        setError(null);
         setStep("sql");
       }
       if (input === "c") {
-        setResults(null);
-        setTransformedQuery(null);
+        setTabs([]);
         setSelectedChipIds([]);
-        setTransformQuery(false);
+        setTransformQuery(initialTransform ?? false);
         setStep("select-chips");
       }
       if (input === "y") {
-        copyChipIds();
+        copy(JSON.stringify(selectedChipIds), "chip IDs");
+      }
+      if (input === "Y" && tab) {
+        copy(tab.sql, "SQL");
       }
     },
     { isActive: isFocused },
@@ -185,7 +482,7 @@ export function QueryScreen({ defaultChipIds, onBack, onInputActive, isFocused }
             onSubmit={(values) => {
               if (values.length > 0) {
                 setSelectedChipIds(values);
-                setStep("transform-option");
+                setStep(afterChipsStep);
               }
             }}
           />
@@ -231,10 +528,13 @@ export function QueryScreen({ defaultChipIds, onBack, onInputActive, isFocused }
         </Text>
         <Box flexDirection="column">
           {selectedChipIds.map((id) => {
-            const meta = sqlMetaMap.get(id);
-            const chips = sqlIndex.chipsByChipId.get(id) ?? [];
+            const chips = chipsForId(id, sqlIndex);
+            // A sub-chip is named after its main chip plus the partition it holds
+            const sub = sqlIndex.chipsByChipId.has(id) ? undefined : chips[0];
+            const meta = sqlMetaMap.get(sub?.chip_id ?? id);
             const tables = [...new Set(chips.map((c) => c.table_name))];
-            const name = meta?.name ?? id.slice(0, 12);
+            const baseName = meta?.name ?? id.slice(0, 12);
+            const name = sub?.partition_value ? `${baseName} · ${sub.partition_value}` : baseName;
             return (
               <Text key={id} color={brand.muted}>
                 {"  "}{name}
@@ -249,15 +549,21 @@ export function QueryScreen({ defaultChipIds, onBack, onInputActive, isFocused }
             <Text color={brand.text}>Enter SQL:</Text>
             {transformQuery && <Text color={brand.violet}>[transform: on]</Text>}
           </Box>
-          <Box>
-            <Text color={brand.violet}>{"❯ "}</Text>
-            <TextInput
-              placeholder="SELECT * FROM ..."
-              onSubmit={handleExecute}
-            />
-          </Box>
+          <SqlEditor
+            defaultValue={sql}
+            onChange={setSql}
+            onSubmit={handleExecute}
+            history={history}
+            getCompletions={
+              completionContext ? (word) => sqlCompletions(word, completionContext) : undefined
+            }
+            maxLines={Math.max(3, termRows - 18 - selectedChipIds.length)}
+          />
         </Box>
         {error && <Text color={brand.error}>{error}</Text>}
+        {onOpenHistory && (
+          <Text color={brand.muted} dimColor>Ctrl+R:search history</Text>
+        )}
       </Box>
     );
   }
@@ -266,31 +572,136 @@ export function QueryScreen({ defaultChipIds, onBack, onInputActive, isFocused }
     return <Spinner label="Executing query..." />;
   }
 
+  if (step === "export-format") {
+    return (
+      <Box flexDirection="column" gap={1} paddingY={1}>
+        <Text color={brand.cyan} bold>
+          Export Results
+        </Text>
+        <Text color={brand.muted}>
+          {tab?.rows.length ?? 0} rows · {tab?.schema.length ?? 0} columns
+        </Text>
+        <Select
+          options={EXPORT_FORMATS.map(({ label, value }) => ({ label, value }))}
+          onChange={(value) => {
+            setExportFormat(value as ExportFormat);
+            setStep("export-path");
+          }}
+        />
+        <Text color={brand.muted} dimColor>
+          Parquet isn't offered: rows are written here, not by the engine, and there's no Parquet writer in the app.
+        </Text>
+        <Text color={brand.muted} dimColor>Esc:cancel</Text>
+      </Box>
+    );
+  }
+
+  if (step === "export-path") {
+    const extension = EXPORT_FORMATS.find((f) => f.value === exportFormat)!.extension;
+    return (
+      <Box flexDirection="column" gap={1} paddingY={1}>
+        <Text color={brand.cyan} bold>
+          Export Results
+        </Text>
+        <Text color={brand.text}>Destination file (Tab to complete):</Text>
+        <FilePathInput
+          defaultValue={exportPath || `./query-results.${extension}`}
+          placeholder={`/path/to/results.${extension}`}
+          onSubmit={handleExport}
+        />
+        <Text color={brand.muted} dimColor>Esc:cancel</Text>
+      </Box>
+    );
+  }
+
+  if (step === "export-overwrite") {
+    return (
+      <Box flexDirection="column" gap={1} paddingY={1}>
+        <Text color={brand.cyan} bold>
+          Export Results
+        </Text>
+        <Text color={brand.error} bold>
+          {resolveUserPath(exportPath)} already exists. Overwrite it?
+        </Text>
+        <Text color={brand.error} bold>
+          y:overwrite  n:choose another path
+        </Text>
+      </Box>
+    );
+  }
+
+  if (step === "exporting") {
+    return <Spinner label="Writing export..." />;
+  }
+
   // results step
   // Compute available space for the table:
   // main panel inner width = termCols - sidebar - border(2) - paddingX(2)
   const sidebarWidth = Math.min(50, Math.floor(termCols * 0.38));
   const tableWidth = termCols - sidebarWidth - 4;
   // height: termRows - header(1) - status(1) - border(2) - paddingY(2) - title(1) - info(1) - footer(1) - gaps(3)
-  const tableHeight = termRows - 12;
+  // Tab bar (1) + gap (1) when the report had several statements
+  const tableHeight = termRows - 12 - (tabs.length > 1 ? 2 : 0);
+
+  const loaded = tab?.rows.length ?? 0;
+  const canPage = tab !== null && tab.paginated && !tab.error && tab.window.limit !== null;
+  const canNext = canPage && hasMoreRows(tab.window, loaded);
+  const canPrev = canPage && tab.window.offset > 0;
+  const pageKeys = [
+    canNext && "n:next page",
+    canPrev && "p:prev page",
+    (canNext || canPrev) && "a:fetch all",
+  ].filter(Boolean).join("  ");
+  const failedCount = tabs.filter((t) => t.error).length;
 
   return (
     <Box flexDirection="column" gap={1} paddingY={1}>
       <Text color={brand.success} bold>
         Query Results
+        {tabs.length > 1 && (
+          <Text color={brand.muted} bold={false}>
+            {"  "}{tabs.length} statements{failedCount > 0 ? ` · ${failedCount} failed` : ""}
+          </Text>
+        )}
       </Text>
-      <Text color={brand.muted}>{resultInfo}</Text>
-      {transformedQuery && (
+      {tabs.length > 1 && (
+        <Text wrap="truncate">
+          {tabs.map((t, i) => (
+            <Text
+              key={i}
+              color={i === activeTab ? brand.text : t.error ? brand.error : brand.muted}
+              backgroundColor={i === activeTab ? (t.error ? brand.error : brand.violet) : undefined}
+            >
+              {tabLabel(t, i)}
+            </Text>
+          ))}
+        </Text>
+      )}
+      {tab?.error ? (
+        <Text color={brand.error}>{tab.error}</Text>
+      ) : (
+        <Text color={brand.muted}>
+          {tab?.schema.length ?? 0} columns · {tab ? describeWindow(tab.window, loaded) : ""}
+          {pageKeys && <Text dimColor>{"  "}{pageKeys}</Text>}
+        </Text>
+      )}
+      {confirmFetchAll && tab && (
+        <Text color={brand.error} bold>
+          Fetch all {tab.window.total !== null ? tab.window.total.toLocaleString() + " " : ""}rows? Large results can exhaust memory. y:confirm  n:cancel
+        </Text>
+      )}
+      {error && <Text color={brand.error}>{error}</Text>}
+      {tab?.transformedQuery && (
         <Box flexDirection="column">
           <Text color={brand.violet} bold>Transformed query:</Text>
-          <Text color={brand.muted}>{transformedQuery}</Text>
+          <Text color={brand.muted}>{tab.transformedQuery}</Text>
         </Box>
       )}
       {showMetadata ? (
         <Box flexDirection="column" gap={1}>
           <Text color={brand.cyan} bold>Schema</Text>
           <Box flexDirection="column">
-            {resultSchema.map((field, i) => (
+            {(tab?.schema ?? []).map((field, i) => (
               <Text key={i}>
                 <Text color={brand.text}>{field.name}</Text>
                 <Text color={brand.muted}>{" — "}{field.data_type}</Text>
@@ -319,20 +730,30 @@ export function QueryScreen({ defaultChipIds, onBack, onInputActive, isFocused }
           )}
         </Box>
       ) : (
-        results && (
+        tab && !tab.error && (
           <TableView
-            data={results}
+            key={activeTab}
+            data={tab.rows}
+            schema={tab.schema}
             viewWidth={tableWidth}
             viewHeight={tableHeight}
             emptyMessage="Query returned no rows"
             isActive={isFocused}
+            onInputActive={setTableInputActive}
           />
         )
       )}
       <Box gap={2}>
-        <Text color={brand.muted}>m:metadata  r:run another  c:change chips  y:copy chip ids  b:back</Text>
-        {copied && <Text color={brand.success}>Copied!</Text>}
+        <Text color={brand.muted}>
+          {tabs.length > 1 && "[ ]:switch tab  "}m:metadata  e:export  r:run another  c:change chips  y:copy chip ids  Y:copy sql  b:back
+        </Text>
+        {copyStatus && (
+          <Text color={copyStatus.ok ? brand.success : brand.error}>{copyStatus.message}</Text>
+        )}
       </Box>
+      {exportStatus && (
+        <Text color={exportStatus.ok ? brand.success : brand.error}>{exportStatus.message}</Text>
+      )}
     </Box>
   );
 }
@@ -0,0 +1,132 @@
+import React, { useState, useEffect } from "react";
+import { Box, Text } from "ink";
+import { TextInput, Spinner } from "@inkjs/ui";
+import { brand } from "../theme.js";
+import { TOKEN_ENV, type ConnectionSettings } from "../utils/connection.js";
+import { saveProfile, CONFIG_FILE, type ConnectionProfile } from "../utils/profiles.js";
+
+type Step = "name" | "chip-filter" | "saving" | "done";
+
+const INPUT_ACTIVE_STEPS: Step[] = ["name", "chip-filter"];
+
+interface SaveProfileScreenProps {
+  connection: ConnectionSettings;
+  /** Name of the profile in use, offered as the default so saving updates it. */
+  profileName: string | null;
+  onSaved: (profile: ConnectionProfile) => void;
+  onInputActive?: (active: boolean) => void;
+}
+
+/** Suggest a profile name from the URL's host, e.g. "staging.example.com" → "staging". */
+function defaultName(url: string): string {
+  try {
+    const host = new URL(url).hostname;
+    return host.split(".")[0] || host;
+  } catch {
+    return "default";
+  }
+}
+
+export function SaveProfileScreen({
+  connection,
+  profileName,
+  onSaved,
+  onInputActive,
+}: SaveProfileScreenProps) {
+  const [step, setStep] = useState<Step>("name");
+  const [name, setName] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    onInputActive?.(INPUT_ACTIVE_STEPS.includes(step));
+    return () => onInputActive?.(false);
+  }, [step, onInputActive]);
+
+  const suggestedName = profileName ?? defaultName(connection.url);
+
+  const handleSave = async (chipFilter: string) => {
+    setStep("saving");
+    setError(null);
+    const profile: ConnectionProfile = { ...connection, name };
+    if (chipFilter) profile.chipFilter = chipFilter;
+    else delete profile.chipFilter;
+    try {
+      await saveProfile(profile);
+      onSaved(profile);
+      setStep("done");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+      setStep("chip-filter");
+    }
+  };
+
+  return (
+    <Box flexDirection="column" gap={1} paddingY={1}>
+      <Text color={brand.cyan} bold>
+        Save Connection as Profile
+      </Text>
+      <Text>
+        <Text color={brand.muted}>URL  </Text>
+        <Text color={brand.text}>{connection.url}</Text>
+      </Text>
+
+      {step === "name" && (
+        <Box flexDirection="column" gap={1}>
+          <Text color={brand.text}>Profile name (Enter for default):</Text>
+          <Box>
+            <Text color={brand.violet}>{"❯ "}</Text>
+            <TextInput
+              placeholder={suggestedName}
+              onSubmit={(v) => {
+                setName(v.trim() || suggestedName);
+                setStep("chip-filter");
+              }}
+            />
+          </Box>
+          {profileName && (
+            <Text color={brand.muted} dimColor>
+              Keep "{profileName}" to update the current profile.
+            </Text>
+          )}
+        </Box>
+      )}
+
+      {step === "chip-filter" && (
+        <Box flexDirection="column" gap={1}>
+          <Text color={brand.text}>Default chip filter (Enter to skip):</Text>
+          <Text color={brand.muted}>Words match chip names and tables; key=value matches tags</Text>
+          <Box>
+            <Text color={brand.violet}>{"❯ "}</Text>
+            <TextInput
+              placeholder="team=analytics orders"
+              defaultValue={connection.chipFilter ?? ""}
+              onSubmit={(v) => handleSave(v.trim())}
+            />
+          </Box>
+        </Box>
+      )}
+
+      {step === "saving" && <Spinner label="Saving profile..." />}
+
+      {step === "done" && (
+        <Box flexDirection="column" gap={1}>
+          <Text color={brand.success}>✓ Saved profile "{name}" to {CONFIG_FILE}</Text>
+          <Text color={brand.muted}>
+            Connect with it next time from the connect screen or with --profile {name}.
+          </Text>
+          {connection.token && (
+            <Text color={brand.muted}>
+              Tokens from --token or {TOKEN_ENV} are not saved; a token already in the profile is
+              kept.
+            </Text>
+          )}
+          <Text color={brand.muted} dimColor>
+            b:back
+          </Text>
+        </Box>
+      )}
+
+      {error && <Text color={brand.error}>{error}</Text>}
+    </Box>
+  );
+}
@@ -0,0 +1,175 @@
+import React, { useState, useEffect } from "react";
+import { Box, Text, useInput } from "ink";
+import { Spinner } from "@inkjs/ui";
+import type { ChipsResponse } from "@datalathe/client";
+import { useClient } from "../hooks/use-client.js";
+import { useAsync } from "../hooks/use-async.js";
+import { useTerminalSize } from "../hooks/use-terminal-size.js";
+import { ErrorDisplay } from "../components/error-display.js";
+import { brand } from "../theme.js";
+import { formatDate, fit } from "../utils/chip-options.js";
+import { loadChipRecords, type ChipRecord } from "../utils/chip-records.js";
+import {
+  chipStorage,
+  sortStorage,
+  storageLocation,
+  expiryLabel,
+  STORAGE_SORTS,
+  type StorageSort,
+} from "../utils/chip-storage.js";
+
+/** Chips expiring within this many days are highlighted, until changed with +/-. */
+const DEFAULT_WARN_DAYS = 7;
+
+interface StorageOverviewScreenProps {
+  connectionUrl: string;
+  onSelectChip: (chipId: string) => void;
+  onRefresh: (chipId: string) => void;
+  onBack: () => void;
+  isFocused: boolean;
+}
+
+export function StorageOverviewScreen({
+  connectionUrl,
+  onSelectChip,
+  onRefresh,
+  onBack,
+  isFocused,
+}: StorageOverviewScreenProps) {
+  const client = useClient();
+  const { columns: termCols, rows: termRows } = useTerminalSize();
+  const { data, loading, error, refetch } = useAsync(
+    async (): Promise<{ chips: ChipsResponse; records: ChipRecord[] }> => {
+      const [chips, records] = await Promise.all([client.listChips(), loadChipRecords(connectionUrl)]);
+      return { chips, records };
+    },
+    [connectionUrl],
+  );
+
+  const [sort, setSort] = useState<StorageSort>("expiry");
+  const [warnDays, setWarnDays] = useState(DEFAULT_WARN_DAYS);
+  const [onlyExpiring, setOnlyExpiring] = useState(false);
+  const [cursor, setCursor] = useState(0);
+
+  const all = data ? chipStorage(data.chips, data.records) : [];
+  const isExpiring = (daysLeft: number | null) => daysLeft !== null && daysLeft <= warnDays;
+  const rows = sortStorage(onlyExpiring ? all.filter((r) => isExpiring(r.daysLeft)) : all, sort);
+
+  useEffect(() => {
+    if (cursor >= rows.length && rows.length > 0) setCursor(rows.length - 1);
+  }, [cursor, rows.length]);
+
+  useInput((input, key) => {
+    const row = rows[cursor];
+    if (key.upArrow) {
+      setCursor((c) => Math.max(0, c - 1));
+    } else if (key.downArrow) {
+      setCursor((c) => Math.min(rows.length - 1, c + 1));
+    } else if (key.return && row) {
+      onSelectChip(row.chipId);
+    } else if (input === "R" && row) {
+      onRefresh(row.chipId);
+    } else if (input === "o") {
+      setSort((s) => STORAGE_SORTS[(STORAGE_SORTS.indexOf(s) + 1) % STORAGE_SORTS.length]!);
+      setCursor(0);
+    } else if (input === "+" || input === "=") {
+      setWarnDays((d) => d + 1);
+    } else if (input === "-") {
+      setWarnDays((d) => Math.max(0, d - 1));
+    } else if (input === "f") {
+      setOnlyExpiring((f) => !f);
+      setCursor(0);
+    } else if (input === "r") {
+      refetch();
+    }
+  }, { isActive: isFocused });
+
+  if (loading && !data) {
+    return <Spinner label="Loading chips..." />;
+  }
+
+  if (error) {
+    return <ErrorDisplay message={error} onRetry={refetch} onBack={onBack} />;
+  }
+
+  const withTtl = all.filter((r) => r.expiresAt !== null).length;
+  const expiringCount = all.filter((r) => isExpiring(r.daysLeft)).length;
+  const unrecorded = all.filter((r) => !r.recorded).length;
+
+  const sidebarWidth = Math.min(50, Math.floor(termCols * 0.38));
+  const panelWidth = termCols - sidebarWidth - 4;
+  const nameW = Math.min(24, Math.max(6, ...rows.map((r) => r.name.length)));
+  const locationW = Math.min(32, Math.max(8, ...rows.map((r) => storageLocation(r).length)));
+
+  const maxVisible = Math.max(3, termRows - 16);
+  const scrollOffset = Math.min(
+    Math.max(0, cursor - Math.floor(maxVisible / 2)),
+    Math.max(0, rows.length - maxVisible),
+  );
+  const visible = rows.slice(scrollOffset, scrollOffset + maxVisible);
+
+  return (
+    <Box flexDirection="column" gap={1} paddingY={1}>
+      <Text color={brand.cyan} bold>
+        Storage & Expiry
+      </Text>
+      <Text color={brand.muted}>
+        {all.length} chip(s) · {withTtl} with a TTL ·{" "}
+        <Text color={expiringCount > 0 ? brand.error : brand.muted}>
+          {expiringCount} expiring within {warnDays}d
+        </Text>
+        {" · "}by {sort}
+        {onlyExpiring && " · expiring only"}
+      </Text>
+
+      {rows.length === 0 ? (
+        <Text color={brand.muted}>
+          {onlyExpiring ? `No chips expire within ${warnDays} days.` : "No chips."}
+        </Text>
+      ) : (
+        <Box flexDirection="column" width={panelWidth}>
+          <Text color={brand.violet} bold wrap="truncate-end">
+            {"  "}{fit("NAME", nameW)}  {fit("ID", 8)}  {fit("STORAGE", locationW)}  {fit("TTL", 5)}  {fit("EXPIRES", 12)}
+          </Text>
+          {visible.map((row, i) => {
+            const isCursor = scrollOffset + i === cursor;
+            const expiring = isExpiring(row.daysLeft);
+            return (
+              <Text key={row.chipId} wrap="truncate-end">
+                <Text color={isCursor ? brand.cyan : brand.muted}>{isCursor ? "> " : "  "}</Text>
+                <Text color={isCursor ? brand.cyan : brand.text}>{fit(row.name, nameW)}</Text>
+                <Text color={brand.muted}>  {row.chipId.slice(0, 8)}  </Text>
+                <Text color={row.recorded ? brand.text : brand.muted}>{fit(storageLocation(row), locationW)}</Text>
+                <Text color={brand.muted}>  {fit(row.ttlDays ? `${row.ttlDays}d` : "—", 5)}  </Text>
+                <Text color={expiring ? brand.error : brand.text}>
+                  {row.expiresAt !== null ? formatDate(row.expiresAt) : fit(row.recorded ? "never" : "unknown", 12)}
+                </Text>
+                {row.daysLeft !== null && (
+                  <Text color={expiring ? brand.error : brand.muted} bold={expiring}>
+                    {"  "}{expiring ? "⚠ " : ""}{expiryLabel(row.daysLeft)}
+                  </Text>
+                )}
+              </Text>
+            );
+          })}
+        </Box>
+      )}
+
+      {unrecorded > 0 && (
+        <Text color={brand.muted} dimColor>
+          {unrecorded} chip(s) weren't created from this app, so their storage settings are unknown.
+        </Text>
+      )}
+
+      <Box gap={2}>
+        <Text color={brand.muted}>↑↓:move</Text>
+        <Text color={brand.muted}>⏎:open chip</Text>
+        <Text color={brand.muted}>R:refresh chip</Text>
+        <Text color={brand.muted}>o:sort</Text>
+        <Text color={brand.muted}>+/-:warn window</Text>
+        <Text color={brand.muted}>f:expiring only</Text>
+        <Text color={brand.muted}>b:back</Text>
+      </Box>
+    </Box>
+  );
+}
@@ -0,0 +1,271 @@
+import React, { useState, useEffect } from "react";
+import { Box, Text, useInput } from "ink";
+import { Select, Spinner } from "@inkjs/ui";
+import type { Chip, ChipsResponse, DuckDBDatabase } from "@datalathe/client";
+import { useClient } from "../hooks/use-client.js";
+import { useAsync } from "../hooks/use-async.js";
+import { useTerminalSize } from "../hooks/use-terminal-size.js";
+import { ErrorDisplay } from "../components/error-display.js";
+import { brand } from "../theme.js";
+import { formatDate, fit } from "../utils/chip-options.js";
+import { saveChipRecord } from "../utils/chip-records.js";
+import {
+  createFromDefinition,
+  definitionProblem,
+  definitionRecord,
+  type ChipDefinition,
+} from "../utils/chip-definition.js";
+import { loadTrash, removeFromTrash, TRASH_FILE, type TrashEntry } from "../utils/trash.js";
+
+type Mode =
+  | { kind: "list" }
+  | { kind: "pick-source"; entry: TrashEntry; databases: string[] }
+  | { kind: "confirm-purge"; entry: TrashEntry }
+  | { kind: "working"; label: string };
+
+interface TrashScreenProps {
+  connectionUrl: string;
+  /** Chips still in their undo window; they can't be restored until deleted. */
+  pendingChipIds: string[];
+  onRestored: (newChipId: string) => void;
+  onOpenChip: (chipId: string) => void;
+  onBack: () => void;
+  isFocused: boolean;
+}
+
+function sourceSummary(def: ChipDefinition): string {
+  if (def.kind === "chip") return `from chips ${(def.sourceChipIds ?? []).map((id) => id.slice(0, 8)).join(", ")}`;
+  if (def.kind === "file") return def.filePath ?? "unknown file";
+  return def.source ? `${def.source}${def.tableName ? ` → ${def.tableName}` : ""}` : "unknown source";
+}
+
+export function TrashScreen({
+  connectionUrl,
+  pendingChipIds,
+  onRestored,
+  onOpenChip,
+  onBack,
+  isFocused,
+}: TrashScreenProps) {
+  const client = useClient();
+  const { columns: termCols, rows: termRows } = useTerminalSize();
+  // The engine's chip list shows which trashed chips were never actually
+  // deleted, e.g. when the app exited during the undo window
+  const { data, loading, error, refetch } = useAsync(
+    async (): Promise<{ entries: TrashEntry[]; onEngine: Set<string> }> => {
+      const [entries, chips]: [TrashEntry[], ChipsResponse] = await Promise.all([
+        loadTrash(connectionUrl),
+        client.listChips(),
+      ]);
+      return { entries, onEngine: new Set(chips.chips.map((c: Chip) => c.chip_id)) };
+    },
+    [connectionUrl],
+  );
+  const entries = data?.entries ?? [];
+  const isOnEngine = (entry: TrashEntry) => data?.onEngine.has(entry.chipId) ?? false;
+
+  const [cursor, setCursor] = useState(0);
+  const [mode, setMode] = useState<Mode>({ kind: "list" });
+  const [message, setMessage] = useState<{ text: string; failed: boolean } | null>(null);
+  const [restoredChipId, setRestoredChipId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (cursor >= entries.length && entries.length > 0) setCursor(entries.length - 1);
+  }, [cursor, entries.length]);
+
+  const restore = async (entry: TrashEntry, def: ChipDefinition) => {
+    setMode({ kind: "working", label: `Re-creating "${entry.name}"...` });
+    setMessage(null);
+    try {
+      const newChipId = await createFromDefinition(client, def);
+      await saveChipRecord(definitionRecord(def, newChipId, connectionUrl)).catch(() => {});
+      await removeFromTrash([entry.chipId], connectionUrl);
+      setRestoredChipId(newChipId);
+      setMessage({ text: `Restored "${entry.name}" as ${newChipId}`, failed: false });
+      onRestored(newChipId);
+      refetch();
+    } catch (err) {
+      setMessage({ text: err instanceof Error ? err.message : String(err), failed: true });
+    }
+    setMode({ kind: "list" });
+  };
+
+  const startRestore = async (entry: TrashEntry) => {
+    const def = entry.definition;
+    if (def.kind === "database" && !def.source && def.query) {
+      // Chips without a creation record don't say which database they came from
+      setMode({ kind: "working", label: "Loading databases..." });
+      try {
+        const dbs: DuckDBDatabase[] = await client.getDatabases();
+        setMode({
+          kind: "pick-source",
+          entry,
+          databases: dbs.filter((d) => !d.internal).map((d) => d.database_name),
+        });
+      } catch (err) {
+        setMessage({ text: err instanceof Error ? err.message : String(err), failed: true });
+        setMode({ kind: "list" });
+      }
+      return;
+    }
+    const problem = definitionProblem(def);
+    if (problem) {
+      setMessage({ text: `Can't restore: ${problem}`, failed: true });
+      return;
+    }
+    restore(entry, def);
+  };
+
+  const purge = async (entry: TrashEntry) => {
+    setMode({ kind: "working", label: "Removing from trash..." });
+    try {
+      await removeFromTrash([entry.chipId], connectionUrl);
+      setMessage({ text: `Removed "${entry.name}" from the trash`, failed: false });
+      refetch();
+    } catch (err) {
+      setMessage({ text: err instanceof Error ? err.message : String(err), failed: true });
+    }
+    setMode({ kind: "list" });
+  };
+
+  useInput((input, key) => {
+    if (mode.kind === "working" || mode.kind === "pick-source") return;
+    if (mode.kind === "confirm-purge") {
+      if (input === "y") purge(mode.entry);
+      else if (input === "n" || key.escape) setMode({ kind: "list" });
+      return;
+    }
+
+    const entry = entries[cursor];
+    if (key.upArrow) {
+      setCursor((c) => Math.max(0, c - 1));
+    } else if (key.downArrow) {
+      setCursor((c) => Math.min(entries.length - 1, c + 1));
+    } else if (key.return && entry) {
+      if (pendingChipIds.includes(entry.chipId)) {
+        setMessage({ text: "Still in its undo window; press u to undo instead", failed: true });
+      } else if (isOnEngine(entry)) {
+        setMessage({
+          text: "This chip was never deleted and is still on the engine; press x to clear the entry",
+          failed: true,
+        });
+      } else {
+        startRestore(entry);
+      }
+    } else if (input === "x" && entry && !pendingChipIds.includes(entry.chipId)) {
+      setMode({ kind: "confirm-purge", entry });
+    } else if (input === "o" && restoredChipId) {
+      onOpenChip(restoredChipId);
+    } else if (input === "r") {
+      refetch();
+    }
+  }, { isActive: isFocused });
+
+  if (loading && !data) {
+    return <Spinner label="Loading trash..." />;
+  }
+
+  if (error) {
+    return <ErrorDisplay message={error} onRetry={refetch} onBack={onBack} />;
+  }
+
+  const sidebarWidth = Math.min(50, Math.floor(termCols * 0.38));
+  const panelWidth = termCols - sidebarWidth - 4;
+  const nameW = Math.min(28, Math.max(8, ...entries.map((e) => e.name.length)));
+
+  const maxVisible = Math.max(3, termRows - 16);
+  const scrollOffset = Math.min(
+    Math.max(0, cursor - Math.floor(maxVisible / 2)),
+    Math.max(0, entries.length - maxVisible),
+  );
+  const visible = entries.slice(scrollOffset, scrollOffset + maxVisible);
+  const selected = entries[cursor];
+
+  return (
+    <Box flexDirection="column" gap={1} paddingY={1}>
+      <Text color={brand.cyan} bold>
+        Trash
+      </Text>
+
+      {entries.length === 0 ? (
+        <Text color={brand.muted}>
+          No deleted chips for this engine. Chips deleted here are kept in {TRASH_FILE}.
+        </Text>
+      ) : (
+        <Box flexDirection="column" width={panelWidth}>
+          {visible.map((entry, i) => {
+            const isCursor = scrollOffset + i === cursor;
+            const isPending = pendingChipIds.includes(entry.chipId);
+            return (
+              <Text key={entry.chipId} wrap="truncate-end">
+                <Text color={isCursor ? brand.cyan : brand.muted}>{isCursor ? "> " : "  "}</Text>
+                <Text color={isCursor ? brand.cyan : brand.text}>{fit(entry.name, nameW)}</Text>
+                <Text color={brand.muted}>  {entry.chipId.slice(0, 8)}  {formatDate(entry.deletedAt)}  </Text>
+                {isPending ? (
+                  <Text color={brand.error}>deleting…</Text>
+                ) : isOnEngine(entry) ? (
+                  <Text color={brand.muted}>not deleted (still on engine)</Text>
+                ) : (
+                  <Text color={brand.violet}>{sourceSummary(entry.definition)}</Text>
+                )}
+              </Text>
+            );
+          })}
+        </Box>
+      )}
+
+      {selected && mode.kind === "list" && (
+        <Box flexDirection="column">
+          {selected.definition.query && (
+            <Text wrap="truncate-end">
+              <Text color={brand.muted}>Query: </Text>
+              <Text color={brand.violet}>{selected.definition.query}</Text>
+            </Text>
+          )}
+          {Object.keys(selected.definition.tags).length > 0 && (
+            <Text wrap="truncate-end">
+              <Text color={brand.muted}>Tags: </Text>
+              <Text color={brand.text}>
+                {Object.entries(selected.definition.tags).map(([k, v]) => `${k}=${v}`).join(" ")}
+              </Text>
+            </Text>
+          )}
+          {!selected.definition.recorded && (
+            <Text color={brand.muted} dimColor>
+              No creation record: partitioning, column renames and storage settings won't be restored.
+            </Text>
+          )}
+        </Box>
+      )}
+
+      {mode.kind === "pick-source" && (
+        <Box flexDirection="column">
+          <Text color={brand.text}>Source database for "{mode.entry.name}":</Text>
+          <Select
+            options={mode.databases.map((d) => ({ label: d, value: d }))}
+            onChange={(value) => restore(mode.entry, { ...mode.entry.definition, source: value })}
+          />
+        </Box>
+      )}
+
+      {mode.kind === "confirm-purge" && (
+        <Text color={brand.error} bold>
+          Remove "{mode.entry.name}" from the trash for good? y:confirm  n:cancel
+        </Text>
+      )}
+
+      {mode.kind === "working" && <Spinner label={mode.label} />}
+
+      {message && <Text color={message.failed ? brand.error : brand.success}>{message.text}</Text>}
+
+      <Box gap={2}>
+        <Text color={brand.muted}>↑↓:move</Text>
+        <Text color={brand.muted}>⏎:restore</Text>
+        <Text color={brand.muted}>x:remove</Text>
+        {restoredChipId && <Text color={brand.muted}>o:open restored</Text>}
+        <Text color={brand.muted}>r:reload</Text>
+        <Text color={brand.muted}>b:back</Text>
+      </Box>
+    </Box>
+  );
+}
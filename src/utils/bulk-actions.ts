@@ -0,0 +1,91 @@
+import { writeFile, mkdir, rename } from "node:fs/promises";
+import { dirname } from "node:path";
+import type { Chip, ChipMetadata, ChipsResponse } from "@datalathe/client";
+import type { ChipRecord } from "./chip-records.js";
+import { resolveUserPath } from "./paths.js";
+
+export type BulkStatus = "pending" | "running" | "ok" | "failed" | "cancelled";
+
+/** One chip's progress through a bulk action. */
+export interface BulkItem {
+  chipId: string;
+  label: string;
+  status: BulkStatus;
+  /** Error for failures; optional note (e.g. a new chip ID) for successes. */
+  message?: string;
+}
+
+/**
+ * Apply an action to each item in turn, one request at a time so a
+ * struggling engine isn't hit with the whole batch at once. A failure is
+ * recorded against its chip and the rest still run. `onUpdate` receives a
+ * fresh array after every change.
+ */
+export async function runBulk(
+  items: BulkItem[],
+  action: (chipId: string) => Promise<string | void>,
+  onUpdate: (items: BulkItem[]) => void,
+): Promise<BulkItem[]> {
+  let current: BulkItem[] = items.map((item) => ({ ...item, status: "pending", message: undefined }));
+  const set = (i: number, patch: Partial<BulkItem>) => {
+    current = current.map((item, j) => (j === i ? { ...item, ...patch } : item));
+    onUpdate(current);
+  };
+  onUpdate(current);
+  for (let i = 0; i < current.length; i++) {
+    set(i, { status: "running" });
+    try {
+      const note = await action(current[i].chipId);
+      set(i, { status: "ok", message: note || undefined });
+    } catch (err) {
+      set(i, { status: "failed", message: err instanceof Error ? err.message : String(err) });
+    }
+  }
+  return current;
+}
+
+/** What a metadata export holds for each chip. */
+export interface ChipMetadataExport {
+  chip_id: string;
+  metadata: ChipMetadata | null;
+  tables: { sub_chip_id: string; table_name: string; partition_value: string | null }[];
+  tags: Record<string, string>;
+  /** How the chip was created, when this machine created it. */
+  record: ChipRecord | null;
+}
+
+export function chipMetadataExport(
+  chipIds: string[],
+  data: ChipsResponse,
+  records: ChipRecord[],
+): ChipMetadataExport[] {
+  return chipIds.map((chipId) => {
+    const tags: Record<string, string> = {};
+    for (const t of data.tags ?? []) {
+      if (t.chip_id === chipId) tags[t.key] = t.value;
+    }
+    return {
+      chip_id: chipId,
+      metadata: data.metadata.find((m: ChipMetadata) => m.chip_id === chipId) ?? null,
+      tables: data.chips
+        .filter((c: Chip) => c.chip_id === chipId)
+        .map((c: Chip) => ({
+          sub_chip_id: c.sub_chip_id,
+          table_name: c.table_name,
+          partition_value: c.partition_value || null,
+        })),
+      tags,
+      record: records.find((r) => r.chipId === chipId) ?? null,
+    };
+  });
+}
+
+/** Write a metadata export as JSON, via a temp file. Returns the absolute path written. */
+export async function writeChipMetadata(filePath: string, entries: ChipMetadataExport[]): Promise<string> {
+  const target = resolveUserPath(filePath);
+  await mkdir(dirname(target), { recursive: true });
+  const tmpPath = target + ".tmp";
+  await writeFile(tmpPath, JSON.stringify(entries, null, 2) + "\n");
+  await rename(tmpPath, target);
+  return target;
+}
@@ -0,0 +1,136 @@
+import { DatalatheResultSet } from "@datalathe/client";
+import type { DatalatheClient, Chip, ChipMetadata, ChipTag, ChipsResponse } from "@datalathe/client";
+import type { ChipRecord } from "./chip-records.js";
+import { quoteIdent } from "./sql.js";
+
+/** Everything needed to create a chip again. */
+export interface ChipDefinition {
+  kind: "database" | "file" | "chip";
+  /** Database for `database` chips. Unknown when the chip has no local record. */
+  source?: string;
+  filePath?: string;
+  sourceChipIds?: string[];
+  query?: string;
+  tableName?: string;
+  partition?: ChipRecord["partition"];
+  columnReplace?: Record<string, string>;
+  storageConfig?: ChipRecord["storageConfig"];
+  name: string;
+  tags: Record<string, string>;
+  /** Whether this came from a local creation record rather than engine metadata alone. */
+  recorded: boolean;
+}
+
+/**
+ * Work out how a chip was made: from its local creation record when there is
+ * one, otherwise from the engine's metadata (query and table name). Without a
+ * record the source database and partition settings are unknown.
+ */
+export function chipDefinition(
+  chipId: string,
+  data: ChipsResponse,
+  record: ChipRecord | undefined,
+): ChipDefinition {
+  const meta = data.metadata.find((m: ChipMetadata) => m.chip_id === chipId);
+  const mainChip = data.chips.find((c: Chip) => c.chip_id === chipId && c.chip_id === c.sub_chip_id);
+  const tags: Record<string, string> = {};
+  for (const t of data.tags ?? []) {
+    if ((t as ChipTag).chip_id === chipId) tags[t.key] = t.value;
+  }
+  const name = meta?.name ?? record?.name ?? chipId.slice(0, 12);
+
+  if (record) {
+    const kind = record.sourceChipIds ? "chip" : record.filePath ? "file" : "database";
+    return {
+      kind,
+      source: record.source,
+      filePath: record.filePath,
+      sourceChipIds: record.sourceChipIds,
+      query: record.query,
+      tableName: record.tableName,
+      partition: record.partition,
+      columnReplace: record.columnReplace,
+      storageConfig: record.storageConfig,
+      name,
+      tags,
+      recorded: true,
+    };
+  }
+  return {
+    kind: "database",
+    query: meta?.query || undefined,
+    tableName: mainChip?.table_name,
+    name,
+    tags,
+    recorded: false,
+  };
+}
+
+/** The creation record for a chip made from a definition. */
+export function definitionRecord(def: ChipDefinition, chipId: string, connectionUrl: string): ChipRecord {
+  return {
+    chipId,
+    connectionUrl,
+    createdAt: Math.floor(Date.now() / 1000),
+    name: def.name,
+    source: def.source,
+    filePath: def.filePath,
+    sourceChipIds: def.sourceChipIds,
+    query: def.query,
+    tableName: def.tableName,
+    partition: def.partition,
+    columnReplace: def.columnReplace,
+    storageConfig: def.storageConfig,
+  };
+}
+
+/** Why a definition can't be used to create a chip, or null when it can. */
+export function definitionProblem(def: ChipDefinition): string | null {
+  if (def.kind === "database" && !def.source) return "Source database unknown";
+  if (def.kind === "database" && !def.query) return "Query unknown";
+  if (def.kind === "file" && !def.filePath) return "Source file unknown";
+  return null;
+}
+
+/** Create a chip from a definition and copy its tags. Returns the new chip ID. */
+export async function createFromDefinition(client: DatalatheClient, def: ChipDefinition): Promise<string> {
+  const problem = definitionProblem(def);
+  if (problem) throw new Error(problem);
+  let id: string;
+  if (def.kind === "chip") {
+    id = await client.createChipFromChip(def.sourceChipIds!, def.query, def.tableName, def.name);
+  } else if (def.kind === "file") {
+    id = await client.createChipFromFile(
+      def.filePath!, undefined, def.partition, def.name, def.columnReplace, def.storageConfig,
+    );
+  } else {
+    id = await client.createChip(
+      def.source!, def.query!, def.tableName!, def.partition, def.name, def.columnReplace, def.storageConfig,
+    );
+  }
+  if (Object.keys(def.tags).length > 0) {
+    await client.addChipTags(id, def.tags);
+  }
+  return id;
+}
+
+/** Row count of each of a chip's tables, keyed by table name; null where counting failed. */
+export async function chipRowCounts(
+  client: DatalatheClient,
+  chipId: string,
+  tables: string[],
+): Promise<Map<string, number | null>> {
+  const counts = new Map<string, number | null>();
+  if (tables.length === 0) return counts;
+  const report = await client.generateReport(
+    [chipId],
+    tables.map((t) => `SELECT count(*) AS total FROM ${quoteIdent(t)}`),
+  );
+  tables.forEach((t, i) => {
+    const entry = report.results.get(i);
+    const row = entry && !entry.error ? new DatalatheResultSet(entry).toArray()[0] : undefined;
+    const total = row ? Number(row.total) : NaN;
+    counts.set(t, Number.isFinite(total) ? total : null);
+  });
+  return counts;
+}
@@ -43,14 +43,18 @@ export function hasAnyPartitions(allChips: Chip[]): boolean {
 export interface ChipIndex {
   chipsByChipId: Map<string, Chip[]>;
   tagsByChipId: Map<string, ChipTag[]>;
+  /** Every row by its sub_chip_id; a main chip's sub_chip_id is its chip_id. */
+  chipBySubChipId: Map<string, Chip>;
 }
 
 export function buildChipIndex(allChips: Chip[], allTags: ChipTag[]): ChipIndex {
   const chipsByChipId = new Map<string, Chip[]>();
+  const chipBySubChipId = new Map<string, Chip>();
   for (const c of allChips) {
     const list = chipsByChipId.get(c.chip_id);
     if (list) list.push(c);
     else chipsByChipId.set(c.chip_id, [c]);
+    chipBySubChipId.set(c.sub_chip_id, c);
   }
   const tagsByChipId = new Map<string, ChipTag[]>();
   for (const t of allTags) {
@@ -58,7 +62,18 @@ export function buildChipIndex(allChips: Chip[], allTags: ChipTag[]): ChipIndex
     if (list) list.push(t);
     else tagsByChipId.set(t.chip_id, [t]);
   }
-  return { chipsByChipId, tagsByChipId };
+  return { chipsByChipId, tagsByChipId, chipBySubChipId };
+}
+
+/**
+ * The chip rows an ID selects for querying: all of a main chip's rows, or
+ * the single row of a sub-chip (one partition) picked on its own.
+ */
+export function chipsForId(id: string, index: ChipIndex): Chip[] {
+  const chips = index.chipsByChipId.get(id);
+  if (chips) return chips;
+  const sub = index.chipBySubChipId.get(id);
+  return sub ? [sub] : [];
 }
 
 /** Build a compact partition summary for a chip. */
@@ -79,6 +94,22 @@ export function tagSummary(chipId: string, index: ChipIndex): string {
   return chipTags.map((t) => `${t.key}=${t.value}`).join(" ");
 }
 
+const TAG_KEY_PATTERN = /^[A-Za-z0-9_.:-]+$/;
+
+/** Parse a single `key=value` tag. Throws with a readable message when the input isn't one. */
+export function parseTag(input: string): { key: string; value: string } {
+  const eq = input.indexOf("=");
+  if (eq === -1) throw new Error("Expected key=value");
+  const key = input.slice(0, eq).trim();
+  const value = input.slice(eq + 1).trim();
+  if (!key) throw new Error("Tag key is empty");
+  if (!TAG_KEY_PATTERN.test(key)) {
+    throw new Error(`Invalid tag key "${key}": use letters, digits, _ . : or -`);
+  }
+  if (!value) throw new Error(`Tag "${key}" has no value`);
+  return { key, value };
+}
+
 /** Count sub-chips for a given chip ID. */
 export function subChipCount(chipId: string, index: ChipIndex): number {
   const chips = index.chipsByChipId.get(chipId) ?? [];
@@ -0,0 +1,60 @@
+import type { SchemaField } from "@datalathe/client";
+import { quoteIdent } from "./sql.js";
+import { typeKind } from "./column-types.js";
+
+export interface ColumnProfile {
+  column: string;
+  type: string;
+  nulls: number;
+  distinct: number;
+  min: string | null;
+  max: string | null;
+}
+
+export interface TableProfile {
+  rowCount: number;
+  columns: ColumnProfile[];
+}
+
+/** First rows of a table, for previews. */
+export function previewQuery(table: string, limit: number): string {
+  return `SELECT * FROM ${quoteIdent(table)} LIMIT ${limit}`;
+}
+
+/**
+ * One aggregate query profiling every column of a table: null and distinct
+ * counts, and min/max as text. Aggregates are aliased by column position so
+ * odd column names can't collide.
+ */
+export function profileQuery(table: string, fields: SchemaField[]): string {
+  const aggregates = ["count(*) AS row_count"];
+  fields.forEach((field, i) => {
+    const col = quoteIdent(field.name);
+    aggregates.push(`count(*) - count(${col}) AS nulls_${i}`);
+    aggregates.push(`count(DISTINCT ${col}) AS distinct_${i}`);
+    // Nested types have no useful ordering, so min/max is skipped for them
+    if (typeKind(field.data_type) === "nested") {
+      aggregates.push(`NULL AS min_${i}`, `NULL AS max_${i}`);
+    } else {
+      aggregates.push(`CAST(min(${col}) AS VARCHAR) AS min_${i}`);
+      aggregates.push(`CAST(max(${col}) AS VARCHAR) AS max_${i}`);
+    }
+  });
+  return `SELECT\n  ${aggregates.join(",\n  ")}\nFROM ${quoteIdent(table)}`;
+}
+
+/** Read the single row returned by profileQuery back into per-column profiles. */
+export function parseProfile(fields: SchemaField[], row: Record<string, unknown>): TableProfile {
+  const text = (value: unknown) => (value === null || value === undefined ? null : String(value));
+  return {
+    rowCount: Number(row.row_count ?? 0),
+    columns: fields.map((field, i) => ({
+      column: field.name,
+      type: field.data_type,
+      nulls: Number(row[`nulls_${i}`] ?? 0),
+      distinct: Number(row[`distinct_${i}`] ?? 0),
+      min: text(row[`min_${i}`]),
+      max: text(row[`max_${i}`]),
+    })),
+  };
+}
@@ -0,0 +1,54 @@
+import { readFile, writeFile, mkdir, rename } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import { homedir } from "node:os";
+import type { Partition, S3StorageConfig } from "@datalathe/client";
+
+export const CHIP_RECORDS_FILE = join(homedir(), ".datalathe", "chips.json");
+
+/** How a chip was created. Kept locally for details the engine doesn't report back. */
+export interface ChipRecord {
+  chipId: string;
+  /** Engine the chip was created on. */
+  connectionUrl: string;
+  /** Unix-seconds epoch, matching chip `created_at` fields. */
+  createdAt: number;
+  name?: string;
+  /** Database the chip was created from. */
+  source?: string;
+  /** File the chip was created from. */
+  filePath?: string;
+  /** Chips this one was built from with create-from-chip. */
+  sourceChipIds?: string[];
+  query?: string;
+  tableName?: string;
+  partition?: Partition;
+  columnReplace?: Record<string, string>;
+  storageConfig?: S3StorageConfig;
+}
+
+async function readRecords(): Promise<ChipRecord[]> {
+  try {
+    const raw = await readFile(CHIP_RECORDS_FILE, "utf8");
+    const records = JSON.parse(raw) as ChipRecord[];
+    return Array.isArray(records) ? records : [];
+  } catch {
+    return [];
+  }
+}
+
+/** Records for one engine. Missing or corrupt files yield []. */
+export async function loadChipRecords(connectionUrl: string): Promise<ChipRecord[]> {
+  return (await readRecords()).filter((r) => r.connectionUrl === connectionUrl);
+}
+
+/** Add or replace the record for a chip, writing to a temp file then renaming. */
+export async function saveChipRecord(record: ChipRecord): Promise<void> {
+  const records = (await readRecords()).filter(
+    (r) => !(r.chipId === record.chipId && r.connectionUrl === record.connectionUrl),
+  );
+  records.push(record);
+  await mkdir(dirname(CHIP_RECORDS_FILE), { recursive: true });
+  const tmpPath = CHIP_RECORDS_FILE + ".tmp";
+  await writeFile(tmpPath, JSON.stringify(records, null, 2) + "\n");
+  await rename(tmpPath, CHIP_RECORDS_FILE);
+}
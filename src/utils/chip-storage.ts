@@ -0,0 +1,90 @@
+import type { Chip, ChipMetadata, ChipsResponse } from "@datalathe/client";
+import type { ChipRecord } from "./chip-records.js";
+
+const SECONDS_PER_DAY = 86_400;
+
+export type StorageSort = "expiry" | "name" | "created";
+
+export const STORAGE_SORTS: StorageSort[] = ["expiry", "name", "created"];
+
+/** Where a chip is stored and when it expires. */
+export interface ChipStorage {
+  chipId: string;
+  name: string;
+  /** Unix-seconds epoch. */
+  createdAt: number;
+  bucket?: string;
+  keyPrefix?: string;
+  ttlDays?: number;
+  /** Unix-seconds epoch, or null when the chip has no TTL. */
+  expiresAt: number | null;
+  /** Days until expiry, negative once past it; null without a TTL. */
+  daysLeft: number | null;
+  /** Whether a local creation record exists; without one storage settings are unknown. */
+  recorded: boolean;
+}
+
+/**
+ * Storage settings for every chip on the engine. The engine doesn't report
+ * them back, so they come from local creation records; expiry counts the
+ * TTL from the chip's creation time.
+ */
+export function chipStorage(
+  data: ChipsResponse,
+  records: ChipRecord[],
+  now: number = Date.now() / 1000,
+): ChipStorage[] {
+  const recordMap = new Map(records.map((r) => [r.chipId, r]));
+  const metaMap = new Map<string, ChipMetadata>(data.metadata.map((m: ChipMetadata) => [m.chip_id, m]));
+  const chipIds = [...new Set<string>(data.chips.map((c: Chip) => c.chip_id))];
+
+  return chipIds.map((chipId) => {
+    const meta = metaMap.get(chipId);
+    const record = recordMap.get(chipId);
+    const createdAt = meta?.created_at ?? record?.createdAt ?? 0;
+    const config = record?.storageConfig;
+    const ttlDays = config?.ttl_days;
+    const expiresAt = ttlDays ? createdAt + ttlDays * SECONDS_PER_DAY : null;
+    return {
+      chipId,
+      name: meta?.name ?? record?.name ?? chipId.slice(0, 12),
+      createdAt,
+      bucket: config?.bucket,
+      keyPrefix: config?.key_prefix,
+      ttlDays,
+      expiresAt,
+      daysLeft: expiresAt === null ? null : (expiresAt - now) / SECONDS_PER_DAY,
+      recorded: record !== undefined,
+    };
+  });
+}
+
+/** Soonest expiry first, with chips that never expire last. */
+export function sortStorage(rows: ChipStorage[], sort: StorageSort): ChipStorage[] {
+  const byName = (a: ChipStorage, b: ChipStorage) => a.name.localeCompare(b.name);
+  switch (sort) {
+    case "expiry":
+      return [...rows].sort(
+        (a, b) => (a.expiresAt ?? Infinity) - (b.expiresAt ?? Infinity) || byName(a, b),
+      );
+    case "name":
+      return [...rows].sort(byName);
+    case "created":
+      return [...rows].sort((a, b) => a.createdAt - b.createdAt);
+  }
+}
+
+/** "s3://bucket/prefix", with "default" standing in for settings left to the engine. */
+export function storageLocation(row: ChipStorage): string {
+  if (!row.bucket && !row.keyPrefix) return row.recorded ? "default" : "unknown";
+  const prefix = row.keyPrefix ? `/${row.keyPrefix.replace(/^\/+/, "")}` : "";
+  return `s3://${row.bucket ?? "(default)"}${prefix}`;
+}
+
+/** "3d left", "today", "expired 2d ago", or "" without a TTL. */
+export function expiryLabel(daysLeft: number | null): string {
+  if (daysLeft === null) return "";
+  if (daysLeft < 0) return `expired ${Math.max(1, Math.floor(-daysLeft))}d ago`;
+  if (daysLeft < 1) return "today";
+  return `${Math.floor(daysLeft)}d left`;
+}
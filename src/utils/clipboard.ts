@@ -0,0 +1,58 @@
+import { execFileSync } from "node:child_process";
+
+interface ClipboardCommand {
+  name: string;
+  command: string;
+  args: string[];
+  /** Skip the command when the environment clearly can't support it. */
+  available?: () => boolean;
+}
+
+const COMMANDS: ClipboardCommand[] = [
+  { name: "pbcopy", command: "pbcopy", args: [], available: () => process.platform === "darwin" },
+  { name: "clip", command: "clip", args: [], available: () => process.platform === "win32" },
+  { name: "wl-copy", command: "wl-copy", args: [], available: () => !!process.env.WAYLAND_DISPLAY },
+  { name: "xclip", command: "xclip", args: ["-selection", "clipboard"], available: () => !!process.env.DISPLAY },
+  { name: "xsel", command: "xsel", args: ["--clipboard", "--input"], available: () => !!process.env.DISPLAY },
+];
+
+/** Pipe text into a clipboard command. Returns false if it is missing or fails. */
+function tryCommand(cmd: ClipboardCommand, text: string): boolean {
+  if (cmd.available && !cmd.available()) return false;
+  try {
+    // Output is ignored so forked helpers (xclip, wl-copy) don't hold our pipes open
+    execFileSync(cmd.command, cmd.args, {
+      input: text,
+      stdio: ["pipe", "ignore", "ignore"],
+      timeout: 2000,
+    });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Ask the terminal to set the clipboard with an OSC 52 escape sequence.
+ * Works over SSH in terminals that support it; inside tmux the sequence is
+ * wrapped in a passthrough so it reaches the outer terminal.
+ */
+function tryOsc52(text: string): boolean {
+  if (!process.stdout.isTTY) return false;
+  const osc = `\x1b]52;c;${Buffer.from(text).toString("base64")}\x07`;
+  const seq = process.env.TMUX ? `\x1bPtmux;${osc.replace(/\x1b/g, "\x1b\x1b")}\x1b\\` : osc;
+  process.stdout.write(seq);
+  return true;
+}
+
+/**
+ * Copy text to the system clipboard, trying native tools first and falling
+ * back to OSC 52. Returns the method used; throws when none is available.
+ */
+export function copyToClipboard(text: string): string {
+  for (const cmd of COMMANDS) {
+    if (tryCommand(cmd, text)) return cmd.name;
+  }
+  if (tryOsc52(text)) return "OSC 52";
+  throw new Error("No clipboard available — install wl-copy, xclip or xsel, or use a terminal with OSC 52 support");
+}
@@ -0,0 +1,20 @@
+/** How a DuckDB column type behaves when sorting, filtering and exporting. */
+export type TypeKind = "number" | "boolean" | "temporal" | "nested" | "text";
+
+// Each pattern matches the whole type name, so INTERVAL isn't read as INT
+// and INTEGER[] isn't read as INTEGER
+const NESTED_TYPE = /^(JSON|(STRUCT|MAP|UNION|LIST)\s*\(.*\))$|\[\d*\]$/i;
+const TEMPORAL_TYPE = /^(DATE|TIME|TIMETZ|TIMESTAMP(_S|_MS|_NS)?|TIMESTAMPTZ|INTERVAL)( WITH TIME ZONE)?$/i;
+const NUMERIC_TYPE =
+  /^(TINYINT|SMALLINT|INTEGER|INT|BIGINT|HUGEINT|UHUGEINT|UTINYINT|USMALLINT|UINTEGER|UBIGINT|FLOAT|REAL|DOUBLE|DECIMAL|NUMERIC)(\s*\(.*\))?$/i;
+const BOOLEAN_TYPE = /^(BOOLEAN|BOOL)$/i;
+
+/** Classify a declared DuckDB type name, e.g. "DECIMAL(18,3)" → number. */
+export function typeKind(dataType: string): TypeKind {
+  const type = dataType.trim();
+  if (NESTED_TYPE.test(type)) return "nested";
+  if (TEMPORAL_TYPE.test(type)) return "temporal";
+  if (NUMERIC_TYPE.test(type)) return "number";
+  if (BOOLEAN_TYPE.test(type)) return "boolean";
+  return "text";
+}
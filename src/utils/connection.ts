@@ -0,0 +1,187 @@
+import { readFileSync } from "node:fs";
+import { Agent, Dispatcher, getGlobalDispatcher, setGlobalDispatcher } from "undici";
+import { DatalatheClient } from "@datalathe/client";
+import { resolveUserPath } from "./paths.js";
+
+export const DEFAULT_URL = "http://localhost:3000";
+
+/** Request timeout in ms. Create-chip can take minutes. */
+export const CLIENT_TIMEOUT_MS = 10 * 60 * 1000; // 10 minutes
+
+/** Environment variable holding a bearer token; overrides a profile's token. */
+export const TOKEN_ENV = "DATALATHE_TOKEN";
+
+/** Everything needed to reach an engine; saved profiles add a name. */
+export interface ConnectionSettings {
+  url: string;
+  /** Request timeout in ms. Defaults to CLIENT_TIMEOUT_MS. */
+  timeoutMs?: number;
+  /** Extra HTTP headers sent with every request. */
+  headers?: Record<string, string>;
+  /** Bearer token sent as the Authorization header. Never displayed. */
+  token?: string;
+  /** PEM bundle of CAs to trust in addition to the system store. */
+  caFile?: string;
+  /** PEM client certificate and key for mutual TLS. */
+  certFile?: string;
+  keyFile?: string;
+  /** Search applied to the sidebar chip list, e.g. "team=data orders". */
+  chipFilter?: string;
+}
+
+/**
+ * Settings from flags and the environment that apply on top of a profile.
+ * A `--token` flag wins over TOKEN_ENV, which wins over the profile's token.
+ */
+export function cliOverrides(flags: {
+  token?: string;
+  ca?: string;
+  cert?: string;
+  key?: string;
+}): Partial<ConnectionSettings> {
+  return {
+    token: flags.token ?? (process.env[TOKEN_ENV] || undefined),
+    caFile: flags.ca,
+    certFile: flags.cert,
+    keyFile: flags.key,
+  };
+}
+
+/** Overlay the defined fields of `overrides` onto `settings`. */
+export function withOverrides(
+  settings: ConnectionSettings,
+  overrides: Partial<ConnectionSettings>,
+): ConnectionSettings {
+  const merged = { ...settings };
+  for (const [key, value] of Object.entries(overrides)) {
+    if (value !== undefined) (merged as Record<string, unknown>)[key] = value;
+  }
+  return merged;
+}
+
+function readPem(path: string, what: string): Buffer {
+  try {
+    return readFileSync(resolveUserPath(path));
+  } catch (err) {
+    throw new Error(`Cannot read ${what} ${path}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+/** The process's own dispatcher, used for every request that isn't to the engine. */
+const defaultDispatcher = getGlobalDispatcher();
+
+/**
+ * Sends requests for one origin through a TLS-configured agent and everything
+ * else (binary downloads, the license API) through the default dispatcher, so
+ * the client certificate is only ever presented to the engine.
+ */
+class OriginDispatcher extends Dispatcher {
+  constructor(
+    private readonly origin: string,
+    private readonly agent: Agent,
+  ) {
+    super();
+  }
+
+  dispatch(options: Dispatcher.DispatchOptions, handler: Dispatcher.DispatchHandlers): boolean {
+    const origin = options.origin ? new URL(String(options.origin)).origin : null;
+    return (origin === this.origin ? this.agent : defaultDispatcher).dispatch(options, handler);
+  }
+}
+
+function tlsAgent(settings: ConnectionSettings): Agent | undefined {
+  if (!settings.caFile && !settings.certFile && !settings.keyFile) return undefined;
+  if (!!settings.certFile !== !!settings.keyFile) {
+    throw new Error("A client certificate needs both a certificate file and a key file");
+  }
+  return new Agent({
+    connect: {
+      ca: settings.caFile ? readPem(settings.caFile, "CA bundle") : undefined,
+      cert: settings.certFile ? readPem(settings.certFile, "client certificate") : undefined,
+      key: settings.keyFile ? readPem(settings.keyFile, "client key") : undefined,
+    },
+  });
+}
+
+/**
+ * The client makes its requests with the global `fetch`, which ignores
+ * `https.Agent`; CA and client-certificate settings only take effect through
+ * fetch's dispatcher. Each connection replaces the previous one's.
+ */
+function applyTlsSettings(settings: ConnectionSettings): void {
+  const agent = tlsAgent(settings);
+  setGlobalDispatcher(agent ? new OriginDispatcher(new URL(settings.url).origin, agent) : defaultDispatcher);
+}
+
+export function createClient(settings: ConnectionSettings): DatalatheClient {
+  applyTlsSettings(settings);
+  const headers = settings.token
+    ? { ...settings.headers, Authorization: `Bearer ${settings.token}` }
+    : settings.headers;
+  return new DatalatheClient(settings.url, {
+    timeout: settings.timeoutMs ?? CLIENT_TIMEOUT_MS,
+    headers,
+  });
+}
+
+const TLS_CODES = new Set([
+  "CERT_HAS_EXPIRED",
+  "CERT_NOT_YET_VALID",
+  "DEPTH_ZERO_SELF_SIGNED_CERT",
+  "SELF_SIGNED_CERT_IN_CHAIN",
+  "UNABLE_TO_GET_ISSUER_CERT",
+  "UNABLE_TO_GET_ISSUER_CERT_LOCALLY",
+  "UNABLE_TO_VERIFY_LEAF_SIGNATURE",
+  "ERR_TLS_CERT_ALTNAME_INVALID",
+  "ERR_SSL_WRONG_VERSION_NUMBER",
+  "EPROTO",
+]);
+
+const NETWORK_CODES = new Set([
+  "ECONNREFUSED",
+  "ECONNRESET",
+  "ENOTFOUND",
+  "EAI_AGAIN",
+  "ETIMEDOUT",
+  "EHOSTUNREACH",
+  "ENETUNREACH",
+  "UND_ERR_CONNECT_TIMEOUT",
+]);
+
+/** Walk an error and its `cause` chain for the first one that has `key`. */
+function findInChain(err: unknown, key: "code" | "status" | "statusCode"): Record<string, unknown> | undefined {
+  let current: unknown = err;
+  for (let depth = 0; current && typeof current === "object" && depth < 5; depth++) {
+    if ((current as Record<string, unknown>)[key] !== undefined) return current as Record<string, unknown>;
+    current = (current as { cause?: unknown }).cause;
+  }
+  return undefined;
+}
+
+/**
+ * Turn a connection failure into a message that says what went wrong:
+ * rejected credentials (401), missing permission (403), certificate
+ * problems, or an engine that can't be reached at all.
+ */
+export function describeConnectionError(err: unknown): string {
+  const message = err instanceof Error ? err.message : String(err);
+  const status = Number(findInChain(err, "status")?.status ?? findInChain(err, "statusCode")?.statusCode);
+  const coded = findInChain(err, "code");
+  const code = String(coded?.code ?? "");
+  // fetch wraps socket errors as "fetch failed"; the cause says what happened
+  const detail = typeof coded?.message === "string" ? coded.message : message;
+
+  if (status === 401 || /\b401\b/.test(message)) {
+    return "Authentication failed (401): the engine rejected the credentials. Check the token or auth headers.";
+  }
+  if (status === 403 || /\b403\b/.test(message)) {
+    return "Access denied (403): the credentials were accepted but lack permission for this engine.";
+  }
+  if (TLS_CODES.has(code) || code.startsWith("ERR_TLS") || code.startsWith("ERR_SSL")) {
+    return `TLS error (${code}): ${detail}. Check the CA bundle and client certificate settings.`;
+  }
+  if (NETWORK_CODES.has(code)) {
+    return `Network error (${code}): cannot reach the engine. ${detail}`;
+  }
+  return message;
+}
@@ -0,0 +1,168 @@
+import { writeFile, mkdir } from "node:fs/promises";
+import { dirname } from "node:path";
+import type { SchemaField } from "@datalathe/client";
+import { typeKind } from "./column-types.js";
+import { resolveUserPath } from "./paths.js";
+
+export type ExportFormat = "csv" | "tsv" | "json" | "ndjson" | "markdown";
+
+export const EXPORT_FORMATS: { label: string; value: ExportFormat; extension: string }[] = [
+  { label: "CSV — comma-separated values", value: "csv", extension: "csv" },
+  { label: "TSV — tab-separated values", value: "tsv", extension: "tsv" },
+  { label: "JSON — array of objects", value: "json", extension: "json" },
+  { label: "NDJSON — one object per line", value: "ndjson", extension: "ndjson" },
+  { label: "Markdown — table", value: "markdown", extension: "md" },
+];
+
+/** Column order from the result schema, falling back to the first row's keys. */
+export function exportColumns(rows: Record<string, unknown>[], schema: SchemaField[]): string[] {
+  if (schema.length > 0) return schema.map((f) => f.name);
+  return rows.length > 0 ? Object.keys(rows[0]!) : [];
+}
+
+/** Convert a cell value into something JSON.stringify can represent faithfully. */
+export function toJsonValue(value: unknown): unknown {
+  if (value === null || value === undefined) return null;
+  if (typeof value === "bigint") {
+    // Keep full precision for values outside the safe integer range
+    return Number.isSafeInteger(Number(value)) ? Number(value) : value.toString();
+  }
+  if (typeof value === "number" && !Number.isFinite(value)) return String(value);
+  if (value instanceof Date) return value.toISOString();
+  if (value instanceof Uint8Array) return Buffer.from(value).toString("base64");
+  if (Array.isArray(value)) return value.map(toJsonValue);
+  if (value instanceof Map) {
+    return Object.fromEntries([...value].map(([k, v]) => [String(k), toJsonValue(v)]));
+  }
+  if (typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>).map(([k, v]) => [k, toJsonValue(v)]),
+    );
+  }
+  return value;
+}
+
+/**
+ * Apply the column's declared DuckDB type to values that arrived as strings:
+ * numeric strings become numbers when no precision is lost, and JSON or
+ * nested-type strings are parsed so they export as structured values.
+ */
+export function typedValue(value: unknown, dataType: string | undefined): unknown {
+  if (typeof value !== "string" || !dataType) return value;
+  const kind = typeKind(dataType);
+  if (kind === "number") {
+    const n = Number(value);
+    if (value.trim() !== "" && Number.isFinite(n) && String(n) === value) return n;
+    return value;
+  }
+  if (kind === "nested") {
+    try {
+      return JSON.parse(value) as unknown;
+    } catch {
+      return value;
+    }
+  }
+  return value;
+}
+
+/** Render a cell as flat text; nested STRUCT/LIST/MAP values become JSON. */
+export function toText(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  const json = toJsonValue(value);
+  if (typeof json === "object" && json !== null) return JSON.stringify(json);
+  return String(json);
+}
+
+function csvField(text: string, delimiter: string): string {
+  if (text.includes(delimiter) || /["\r\n]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+}
+
+function delimited(rows: Record<string, unknown>[], columns: string[], delimiter: string): string {
+  const lines = [columns.map((c) => csvField(c, delimiter)).join(delimiter)];
+  for (const row of rows) {
+    lines.push(columns.map((c) => csvField(toText(row[c]), delimiter)).join(delimiter));
+  }
+  return lines.join("\n") + "\n";
+}
+
+function markdownCell(text: string): string {
+  return text.replace(/\|/g, "\\|").replace(/\r?\n/g, "<br>");
+}
+
+function markdown(rows: Record<string, unknown>[], columns: string[]): string {
+  const lines = [
+    `| ${columns.map(markdownCell).join(" | ")} |`,
+    `| ${columns.map(() => "---").join(" | ")} |`,
+  ];
+  for (const row of rows) {
+    lines.push(`| ${columns.map((c) => markdownCell(toText(row[c]))).join(" | ")} |`);
+  }
+  return lines.join("\n") + "\n";
+}
+
+/** Key each row by the schema's column order so JSON output preserves it. */
+function orderedObject(
+  row: Record<string, unknown>,
+  columns: string[],
+  types: Map<string, string>,
+): Record<string, unknown> {
+  const out: Record<string, unknown> = {};
+  for (const c of columns) out[c] = toJsonValue(typedValue(row[c], types.get(c)));
+  return out;
+}
+
+/** Rows as plain JSON-safe objects in schema column order, with declared types applied. */
+export function toJsonRows(
+  rows: Record<string, unknown>[],
+  schema: SchemaField[],
+): Record<string, unknown>[] {
+  const columns = exportColumns(rows, schema);
+  const types = new Map<string, string>(schema.map((f) => [f.name, f.data_type]));
+  return rows.map((r) => orderedObject(r, columns, types));
+}
+
+export function serializeRows(
+  rows: Record<string, unknown>[],
+  schema: SchemaField[],
+  format: ExportFormat,
+): string {
+  const columns = exportColumns(rows, schema);
+  switch (format) {
+    case "csv":
+      return delimited(rows, columns, ",");
+    case "tsv":
+      return delimited(rows, columns, "\t");
+    case "json":
+      return JSON.stringify(toJsonRows(rows, schema), null, 2) + "\n";
+    case "ndjson":
+      return toJsonRows(rows, schema).map((r) => JSON.stringify(r) + "\n").join("");
+    case "markdown":
+      return markdown(rows, columns);
+  }
+}
+
+/** Whether an export failed because the destination already exists. */
+export function isExistingFileError(err: unknown): boolean {
+  return err instanceof Error && (err as NodeJS.ErrnoException).code === "EEXIST";
+}
+
+/**
+ * Write rows to disk in the given format. Returns the absolute path written.
+ * An existing file is only replaced with `overwrite`; otherwise the write
+ * fails with EEXIST so the caller can ask first.
+ */
+export async function writeExport(
+  filePath: string,
+  rows: Record<string, unknown>[],
+  schema: SchemaField[],
+  format: ExportFormat,
+  overwrite = false,
+): Promise<string> {
+  const target = resolveUserPath(filePath);
+  await mkdir(dirname(target), { recursive: true });
+  await writeFile(target, serializeRows(rows, schema, format), { flag: overwrite ? "w" : "wx" });
+  return target;
+}
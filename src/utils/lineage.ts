@@ -0,0 +1,87 @@
+import type { ChipMetadata } from "@datalathe/client";
+import type { ChipRecord } from "./chip-records.js";
+
+/** Derived chip ID → the chip IDs it was built from. */
+export type LineageGraph = Map<string, string[]>;
+
+/** Levels followed up or down from the focused chip before the tree is cut off. */
+const MAX_DEPTH = 8;
+
+export interface LineageLine {
+  chipId: string;
+  /** Tree connectors drawn before the chip, e.g. "│  └─ ". */
+  prefix: string;
+  direction: "upstream" | "self" | "downstream";
+  /** The chip already appears on this branch; its subtree isn't repeated. */
+  cycle: boolean;
+}
+
+/** Source chip IDs reported by the engine, on engines whose metadata includes them. */
+function engineSources(meta: ChipMetadata): string[] {
+  const ids = (meta as { source_chip_ids?: unknown }).source_chip_ids;
+  return Array.isArray(ids) ? ids.filter((id): id is string => typeof id === "string") : [];
+}
+
+/**
+ * Combine engine metadata with local creation records. The engine's answer
+ * wins for a chip that has one; local records fill in the rest.
+ */
+export function buildLineageGraph(metadata: ChipMetadata[], records: ChipRecord[]): LineageGraph {
+  const graph: LineageGraph = new Map();
+  for (const record of records) {
+    if (record.sourceChipIds && record.sourceChipIds.length > 0) {
+      graph.set(record.chipId, record.sourceChipIds);
+    }
+  }
+  for (const meta of metadata) {
+    const sources = engineSources(meta);
+    if (sources.length > 0) graph.set(meta.chip_id, sources);
+  }
+  return graph;
+}
+
+function invert(graph: LineageGraph): LineageGraph {
+  const derived: LineageGraph = new Map();
+  for (const [chipId, sources] of graph) {
+    for (const source of sources) {
+      const list = derived.get(source) ?? [];
+      list.push(chipId);
+      derived.set(source, list);
+    }
+  }
+  return derived;
+}
+
+function walk(
+  chipId: string,
+  edges: LineageGraph,
+  direction: "upstream" | "downstream",
+  indent: string,
+  path: Set<string>,
+  lines: LineageLine[],
+): void {
+  if (path.size > MAX_DEPTH) return;
+  const next = edges.get(chipId) ?? [];
+  next.forEach((id, i) => {
+    const isLast = i === next.length - 1;
+    const cycle = path.has(id);
+    lines.push({ chipId: id, prefix: indent + (isLast ? "└─ " : "├─ "), direction, cycle });
+    if (!cycle) {
+      path.add(id);
+      walk(id, edges, direction, indent + (isLast ? "   " : "│  "), path, lines);
+      path.delete(id);
+    }
+  });
+}
+
+/**
+ * Lines of the lineage tree around one chip: its sources (and theirs)
+ * above it, then the chip itself, then chips derived from it below.
+ */
+export function lineageLines(chipId: string, graph: LineageGraph): LineageLine[] {
+  const upstream: LineageLine[] = [];
+  walk(chipId, graph, "upstream", "", new Set([chipId]), upstream);
+  const downstream: LineageLine[] = [];
+  walk(chipId, invert(graph), "downstream", "", new Set([chipId]), downstream);
+  return [...upstream, { chipId, prefix: "", direction: "self", cycle: false }, ...downstream];
+}
@@ -0,0 +1,8 @@
+import { homedir } from "node:os";
+import { resolve } from "node:path";
+
+/** Trim a typed path, expand a leading `~` and resolve it relative to the working directory. */
+export function resolveUserPath(p: string): string {
+  const trimmed = p.trim();
+  return resolve(trimmed === "~" || trimmed.startsWith("~/") ? homedir() + trimmed.slice(1) : trimmed);
+}
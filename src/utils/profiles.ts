@@ -0,0 +1,64 @@
+import { readFile, writeFile, mkdir, rename } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import { homedir } from "node:os";
+import type { ConnectionSettings } from "./connection.js";
+
+export const CONFIG_FILE = join(homedir(), ".datalathe", "config.json");
+
+export interface ConnectionProfile extends ConnectionSettings {
+  name: string;
+}
+
+interface Config {
+  profiles: ConnectionProfile[];
+}
+
+function isProfile(value: unknown): value is ConnectionProfile {
+  const p = value as ConnectionProfile;
+  return typeof p?.name === "string" && typeof p?.url === "string";
+}
+
+/** Read the config file. A missing file yields no profiles; a corrupt one throws. */
+async function loadConfig(): Promise<Config> {
+  let raw: string;
+  try {
+    raw = await readFile(CONFIG_FILE, "utf8");
+  } catch {
+    return { profiles: [] };
+  }
+  let parsed: { profiles?: unknown };
+  try {
+    parsed = JSON.parse(raw) as { profiles?: unknown };
+  } catch (err) {
+    throw new Error(`Invalid ${CONFIG_FILE}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  const profiles = Array.isArray(parsed.profiles) ? parsed.profiles.filter(isProfile) : [];
+  return { ...parsed, profiles };
+}
+
+export async function loadProfiles(): Promise<ConnectionProfile[]> {
+  return (await loadConfig()).profiles;
+}
+
+export async function findProfile(name: string): Promise<ConnectionProfile> {
+  const profile = (await loadProfiles()).find((p) => p.name === name);
+  if (!profile) throw new Error(`Profile not found: ${name} (in ${CONFIG_FILE})`);
+  return profile;
+}
+
+/** Add a profile, replacing any with the same name. Writes to a temp file then renames. */
+export async function saveProfile(profile: ConnectionProfile): Promise<void> {
+  const config = await loadConfig();
+  const index = config.profiles.findIndex((p) => p.name === profile.name);
+  // Tokens may come from --token or the environment; only keep one the file already had
+  const { token: _token, ...saved }: ConnectionProfile = profile;
+  const storedToken = index === -1 ? undefined : config.profiles[index].token;
+  const entry: ConnectionProfile = storedToken ? { ...saved, token: storedToken } : saved;
+  if (index === -1) config.profiles.push(entry);
+  else config.profiles[index] = entry;
+  await mkdir(dirname(CONFIG_FILE), { recursive: true });
+  const tmpPath = CONFIG_FILE + ".tmp";
+  // The file can hold tokens and header secrets, so keep it private to the user
+  await writeFile(tmpPath, JSON.stringify(config, null, 2) + "\n", { mode: 0o600 });
+  await rename(tmpPath, CONFIG_FILE);
+}
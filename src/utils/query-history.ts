@@ -0,0 +1,85 @@
+import { readFile, writeFile, mkdir, rename } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import { homedir } from "node:os";
+
+const HISTORY_FILE = join(homedir(), ".datalathe", "query-history.json");
+
+/** An engine's oldest entries are dropped once its history grows past this size. */
+const MAX_ENTRIES_PER_ENGINE = 500;
+
+export interface QueryHistoryEntry {
+  sql: string;
+  chipIds: string[];
+  transform: boolean;
+  rowCount: number | null;
+  totalMs: number | null;
+  error: string | null;
+  /** Unix-seconds epoch, matching chip `created_at` fields. */
+  executedAt: number;
+  /** Engine the query ran on. Missing on entries recorded before this was tracked. */
+  connectionUrl?: string;
+}
+
+async function readHistory(): Promise<QueryHistoryEntry[]> {
+  try {
+    const raw = await readFile(HISTORY_FILE, "utf8");
+    const entries = JSON.parse(raw) as QueryHistoryEntry[];
+    return Array.isArray(entries) ? entries : [];
+  } catch {
+    return [];
+  }
+}
+
+/** Entries for one engine; untagged entries from older versions are kept for every engine. */
+function forConnection(entries: QueryHistoryEntry[], connectionUrl: string): QueryHistoryEntry[] {
+  return entries.filter((e) => e.connectionUrl === undefined || e.connectionUrl === connectionUrl);
+}
+
+/**
+ * Keep each engine's most recent entries, so a busy engine can't push
+ * another's history out. Untagged entries count as one more engine.
+ */
+function capPerConnection(entries: QueryHistoryEntry[]): QueryHistoryEntry[] {
+  const counts = new Map<string | undefined, number>();
+  return entries.filter((e) => {
+    const count = (counts.get(e.connectionUrl) ?? 0) + 1;
+    counts.set(e.connectionUrl, count);
+    return count <= MAX_ENTRIES_PER_ENGINE;
+  });
+}
+
+/** Load an engine's history entries, most recent first. Missing or corrupt files yield []. */
+export async function loadHistory(connectionUrl: string): Promise<QueryHistoryEntry[]> {
+  return forConnection(await readHistory(), connectionUrl);
+}
+
+/**
+ * Prepend an entry and persist, writing to a temp file then renaming.
+ * Returns the updated history for the entry's engine.
+ */
+export async function appendHistory(
+  entry: QueryHistoryEntry & { connectionUrl: string },
+): Promise<QueryHistoryEntry[]> {
+  const entries = capPerConnection([entry, ...(await readHistory())]);
+  await mkdir(dirname(HISTORY_FILE), { recursive: true });
+  const tmpPath = HISTORY_FILE + ".tmp";
+  await writeFile(tmpPath, JSON.stringify(entries, null, 2) + "\n");
+  await rename(tmpPath, HISTORY_FILE);
+  return forConnection(entries, entry.connectionUrl);
+}
+
+/** Distinct SQL texts in recency order, for Up/Down recall in the editor. */
+export function recallList(entries: QueryHistoryEntry[]): string[] {
+  return [...new Set(entries.map((e) => e.sql))];
+}
+
+/** Case-insensitive substring match against SQL text and chip IDs. */
+export function searchHistory(entries: QueryHistoryEntry[], term: string): QueryHistoryEntry[] {
+  const needle = term.trim().toLowerCase();
+  if (!needle) return entries;
+  return entries.filter(
+    (e) =>
+      e.sql.toLowerCase().includes(needle) ||
+      e.chipIds.some((id) => id.toLowerCase().includes(needle)),
+  );
+}
@@ -0,0 +1,107 @@
+export type CompletionKind = "table" | "column" | "keyword" | "function";
+
+export interface Completion {
+  text: string;
+  kind: CompletionKind;
+  /** Extra context shown in the popup, e.g. a column's table and type. */
+  detail?: string;
+}
+
+/** Tables and their columns available to the query being edited. */
+export interface CompletionContext {
+  tables: string[];
+  columns: Map<string, { name: string; dataType: string }[]>;
+}
+
+const KEYWORDS = [
+  "SELECT", "FROM", "WHERE", "GROUP BY", "ORDER BY", "HAVING", "LIMIT", "OFFSET",
+  "JOIN", "LEFT JOIN", "RIGHT JOIN", "INNER JOIN", "FULL OUTER JOIN", "CROSS JOIN",
+  "ON", "USING", "AS", "AND", "OR", "NOT", "IN", "IS", "NULL", "LIKE", "ILIKE",
+  "BETWEEN", "EXISTS", "CASE", "WHEN", "THEN", "ELSE", "END", "DISTINCT", "ALL",
+  "UNION", "UNION ALL", "INTERSECT", "EXCEPT", "WITH", "RECURSIVE", "OVER",
+  "PARTITION BY", "ROWS", "RANGE", "QUALIFY", "WINDOW", "ASC", "DESC",
+  "NULLS FIRST", "NULLS LAST", "TRUE", "FALSE", "CAST", "TRY_CAST", "INTERVAL",
+  "DESCRIBE", "SUMMARIZE", "PIVOT", "UNPIVOT", "EXCLUDE", "REPLACE", "FILTER",
+];
+
+const FUNCTIONS = [
+  "count", "sum", "avg", "min", "max", "median", "mode", "stddev", "variance",
+  "approx_count_distinct", "quantile_cont", "quantile_disc", "arg_min", "arg_max",
+  "first", "last", "list", "string_agg", "array_agg", "bool_and", "bool_or",
+  "row_number", "rank", "dense_rank", "percent_rank", "ntile", "lag", "lead",
+  "first_value", "last_value", "nth_value",
+  "coalesce", "nullif", "ifnull", "greatest", "least",
+  "lower", "upper", "length", "trim", "ltrim", "rtrim", "substring", "concat",
+  "concat_ws", "replace", "split_part", "regexp_matches", "regexp_replace",
+  "regexp_extract", "starts_with", "ends_with", "contains", "strpos", "lpad", "rpad",
+  "abs", "round", "floor", "ceil", "power", "sqrt", "ln", "log10",
+  "now", "current_date", "current_timestamp", "date_trunc", "date_part",
+  "date_diff", "date_add", "strftime", "strptime", "epoch", "to_timestamp",
+  "extract", "year", "month", "day", "hour",
+  "unnest", "list_value", "struct_pack", "json_extract", "json_extract_string",
+  "read_csv", "read_parquet", "read_json",
+];
+
+/** Characters that can appear in a completable word (including `table.` qualifiers). */
+const WORD_CHAR = /[A-Za-z0-9_.]/;
+
+/** Find the word ending at `col` in `line`. Returns its start column. */
+export function wordStart(line: string, col: number): number {
+  let start = col;
+  while (start > 0 && WORD_CHAR.test(line[start - 1]!)) start--;
+  return start;
+}
+
+/** Match the case of what the user typed: lowercase input gets lowercase keywords. */
+function matchCase(text: string, typed: string): string {
+  return typed.length > 0 && typed === typed.toLowerCase() ? text.toLowerCase() : text;
+}
+
+/**
+ * Completions for a partially typed word. `orders.` lists the columns of
+ * `orders`; anything else matches tables, columns, keywords and functions
+ * by case-insensitive prefix.
+ */
+export function sqlCompletions(word: string, context: CompletionContext): Completion[] {
+  const dot = word.lastIndexOf(".");
+  if (dot !== -1) {
+    const qualifier = word.slice(0, dot).toLowerCase();
+    const prefix = word.slice(dot + 1).toLowerCase();
+    const table = context.tables.find((t) => t.toLowerCase() === qualifier);
+    if (!table) return [];
+    return (context.columns.get(table) ?? [])
+      .filter((c) => c.name.toLowerCase().startsWith(prefix))
+      .map((c) => ({ text: `${word.slice(0, dot)}.${c.name}`, kind: "column", detail: c.dataType }));
+  }
+
+  const prefix = word.toLowerCase();
+  if (!prefix) return [];
+  const matches: Completion[] = [];
+  const seen = new Set<string>();
+  const add = (c: Completion) => {
+    if (seen.has(c.text) || !c.text.toLowerCase().startsWith(prefix)) return;
+    seen.add(c.text);
+    matches.push(c);
+  };
+
+  for (const t of context.tables) add({ text: t, kind: "table" });
+  for (const [table, cols] of context.columns) {
+    for (const c of cols) add({ text: c.name, kind: "column", detail: `${table} · ${c.dataType}` });
+  }
+  for (const k of KEYWORDS) add({ text: matchCase(k, word), kind: "keyword" });
+  for (const f of FUNCTIONS) add({ text: f, kind: "function" });
+  return matches;
+}
+
+/** Longest case-insensitive common prefix, keeping the first candidate's casing. */
+export function commonCompletionPrefix(candidates: string[]): string {
+  if (candidates.length === 0) return "";
+  let prefix = candidates[0]!;
+  for (let i = 1; i < candidates.length; i++) {
+    const other = candidates[i]!.toLowerCase();
+    while (!other.startsWith(prefix.toLowerCase())) {
+      prefix = prefix.slice(0, -1);
+    }
+  }
+  return prefix;
+}
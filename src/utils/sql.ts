@@ -0,0 +1,126 @@
+/** Remove trailing semicolons and whitespace so clauses can be appended. */
+export function stripTrailingSemicolon(sql: string): string {
+  return sql.replace(/[;\s]+$/, "");
+}
+
+/** Whether the query already constrains its own row count. */
+export function hasLimitClause(sql: string): boolean {
+  return /\bLIMIT\s+\d+/i.test(sql);
+}
+
+/** Quote an identifier unless it is a plain lowercase-safe name. */
+export function quoteIdent(name: string): string {
+  return /^[A-Za-z_][A-Za-z0-9_]*$/.test(name) ? name : `"${name.replace(/"/g, '""')}"`;
+}
+
+/** Append a LIMIT/OFFSET window to a query. */
+export function pageQuery(sql: string, limit: number, offset: number): string {
+  const base = stripTrailingSemicolon(sql);
+  return offset > 0 ? `${base} LIMIT ${limit} OFFSET ${offset}` : `${base} LIMIT ${limit}`;
+}
+
+/** Wrap a query to count its full result size. */
+export function countQuery(sql: string): string {
+  return `SELECT count(*) AS total FROM (${stripTrailingSemicolon(sql)}) AS _datalathe_count`;
+}
+
+/** The slice of a full result currently loaded. `limit` is null when everything was fetched. */
+export interface ResultWindow {
+  offset: number;
+  limit: number | null;
+  /** Full result size, when the count query succeeded. */
+  total: number | null;
+}
+
+/** Whether rows beyond the loaded window exist (or might, when the total is unknown). */
+export function hasMoreRows(window: ResultWindow, loaded: number): boolean {
+  if (window.limit === null) return false;
+  if (window.total !== null) return window.offset + loaded < window.total;
+  return loaded >= window.limit;
+}
+
+/** Describe the loaded window, e.g. "rows 201–400 of 1,532". */
+export function describeWindow(window: ResultWindow, loaded: number): string {
+  const total = window.total !== null ? window.total.toLocaleString() : null;
+  if (window.limit === null) return `all ${loaded.toLocaleString()} rows`;
+  if (loaded === 0) return window.offset > 0 ? `no rows past ${window.offset.toLocaleString()}` : "0 rows";
+  const range = `rows ${(window.offset + 1).toLocaleString()}–${(window.offset + loaded).toLocaleString()}`;
+  if (total !== null) return `${range} of ${total}`;
+  return hasMoreRows(window, loaded) ? `${range} (more available)` : range;
+}
+
+/**
+ * Split a script into statements on top-level semicolons. Semicolons inside
+ * quoted strings, quoted identifiers, dollar-quoted bodies and comments are
+ * ignored. Statements that contain only whitespace or comments are dropped,
+ * and comments after a statement's last code are trimmed so a clause appended
+ * by pageQuery or countQuery can't end up inside a `--` comment.
+ */
+export function splitStatements(script: string): string[] {
+  const statements: string[] = [];
+  let current = "";
+  /** Length of `current` up to the end of its last code, 0 while it has none. */
+  let codeEnd = 0;
+  let i = 0;
+
+  const flush = () => {
+    if (codeEnd > 0) statements.push(current.slice(0, codeEnd).trim());
+    current = "";
+    codeEnd = 0;
+  };
+
+  while (i < script.length) {
+    const ch = script[i]!;
+    const next = script[i + 1];
+
+    if (ch === "-" && next === "-") {
+      const end = script.indexOf("\n", i);
+      const stop = end === -1 ? script.length : end;
+      current += script.slice(i, stop);
+      i = stop;
+      continue;
+    }
+
+    if (ch === "/" && next === "*") {
+      const end = script.indexOf("*/", i + 2);
+      const stop = end === -1 ? script.length : end + 2;
+      current += script.slice(i, stop);
+      i = stop;
+      continue;
+    }
+
+    if (ch === "'" || ch === '"') {
+      // A doubled quote is an escaped quote, so scanning pairs handles it
+      let j = i + 1;
+      while (j < script.length && script[j] !== ch) j++;
+      current += script.slice(i, j + 1);
+      codeEnd = current.length;
+      i = j + 1;
+      continue;
+    }
+
+    if (ch === "$") {
+      const tag = /^\$[A-Za-z_]*\$/.exec(script.slice(i))?.[0];
+      if (tag) {
+        const end = script.indexOf(tag, i + tag.length);
+        const stop = end === -1 ? script.length : end + tag.length;
+        current += script.slice(i, stop);
+        codeEnd = current.length;
+        i = stop;
+        continue;
+      }
+    }
+
+    if (ch === ";") {
+      flush();
+      i++;
+      continue;
+    }
+
+    current += ch;
+    if (!/\s/.test(ch)) codeEnd = current.length;
+    i++;
+  }
+  flush();
+  return statements;
+}
@@ -0,0 +1,276 @@
+import { toJsonValue, toText, typedValue } from "./export.js";
+import { typeKind } from "./column-types.js";
+
+export type SortDirection = "asc" | "desc";
+
+export interface SortState {
+  column: string;
+  direction: SortDirection;
+}
+
+export type FilterOp = "contains" | "eq" | "neq" | "gt" | "gte" | "lt" | "lte" | "null" | "not-null";
+
+export interface ColumnFilter {
+  column: string;
+  op: FilterOp;
+  value: string;
+}
+
+type ValueKind = "number" | "boolean" | "temporal" | "text";
+
+/** Classify a column by its declared type, falling back to the first non-null value. */
+export function columnKind(
+  column: string,
+  rows: Record<string, unknown>[],
+  dataType?: string,
+): ValueKind {
+  if (dataType) {
+    const kind = typeKind(dataType);
+    // Nested values sort and filter by their text form
+    return kind === "nested" ? "text" : kind;
+  }
+  const sample = rows.find((r) => r[column] !== null && r[column] !== undefined)?.[column];
+  if (typeof sample === "number" || typeof sample === "bigint") return "number";
+  if (typeof sample === "boolean") return "boolean";
+  if (sample instanceof Date) return "temporal";
+  return "text";
+}
+
+function isNull(v: unknown): boolean {
+  return v === null || v === undefined;
+}
+
+function toNumber(v: unknown): number {
+  if (typeof v === "number") return v;
+  if (typeof v === "bigint") return Number(v);
+  return Number(String(v));
+}
+
+function toTime(v: unknown): number {
+  if (v instanceof Date) return v.getTime();
+  if (typeof v === "number" || typeof v === "bigint") return Number(v);
+  const t = Date.parse(String(v));
+  return isNaN(t) ? NaN : t;
+}
+
+function compareValues(a: unknown, b: unknown, kind: ValueKind): number {
+  switch (kind) {
+    case "number":
+      if (typeof a === "bigint" && typeof b === "bigint") return a < b ? -1 : a > b ? 1 : 0;
+      return toNumber(a) - toNumber(b);
+    case "boolean":
+      return Number(Boolean(a)) - Number(Boolean(b));
+    case "temporal": {
+      const ta = toTime(a);
+      const tb = toTime(b);
+      // Unparseable values (e.g. intervals) fall back to text order
+      if (isNaN(ta) || isNaN(tb)) return String(a).localeCompare(String(b));
+      return ta - tb;
+    }
+    case "text":
+      return String(a).localeCompare(String(b));
+  }
+}
+
+/** Stable sort; nulls always sort last regardless of direction. */
+export function sortRows(
+  rows: Record<string, unknown>[],
+  sort: SortState,
+  dataType?: string,
+): Record<string, unknown>[] {
+  const kind = columnKind(sort.column, rows, dataType);
+  const sign = sort.direction === "asc" ? 1 : -1;
+  return rows
+    .map((row, i) => ({ row, i }))
+    .sort((x, y) => {
+      const a = x.row[sort.column];
+      const b = y.row[sort.column];
+      if (isNull(a) || isNull(b)) {
+        if (isNull(a) && isNull(b)) return x.i - y.i;
+        return isNull(a) ? 1 : -1;
+      }
+      return sign * compareValues(a, b, kind) || x.i - y.i;
+    })
+    .map(({ row }) => row);
+}
+
+const OPERATORS: [string, FilterOp][] = [
+  [">=", "gte"],
+  ["<=", "lte"],
+  ["!=", "neq"],
+  [">", "gt"],
+  ["<", "lt"],
+  ["=", "eq"],
+  ["~", "contains"],
+];
+
+/**
+ * Parse a quick-filter expression. `null` and `!null` test for nulls,
+ * `=`, `!=`, `>`, `>=`, `<`, `<=` compare, `~text` or bare text matches
+ * substrings case-insensitively. Returns null for an empty expression.
+ */
+export function parseFilter(column: string, expr: string): ColumnFilter | null {
+  const text = expr.trim();
+  if (!text) return null;
+  if (text.toLowerCase() === "null") return { column, op: "null", value: "" };
+  if (text.toLowerCase() === "!null") return { column, op: "not-null", value: "" };
+  for (const [symbol, op] of OPERATORS) {
+    if (text.startsWith(symbol)) {
+      return { column, op, value: text.slice(symbol.length).trim() };
+    }
+  }
+  return { column, op: "contains", value: text };
+}
+
+const OP_SYMBOLS: Record<FilterOp, string> = {
+  contains: "~",
+  eq: "=",
+  neq: "!=",
+  gt: ">",
+  gte: ">=",
+  lt: "<",
+  lte: "<=",
+  null: " is null",
+  "not-null": " not null",
+};
+
+export function describeFilter(f: ColumnFilter): string {
+  return `${f.column}${OP_SYMBOLS[f.op]}${f.value}`;
+}
+
+function matches(value: unknown, filter: ColumnFilter, kind: ValueKind): boolean {
+  if (filter.op === "null") return isNull(value);
+  if (filter.op === "not-null") return !isNull(value);
+  if (isNull(value)) return false;
+
+  if (filter.op === "contains") {
+    return String(value).toLowerCase().includes(filter.value.toLowerCase());
+  }
+
+  // Compare numerically or chronologically when the column type allows it
+  let cmp: number;
+  if (kind === "number" && !isNaN(Number(filter.value))) {
+    cmp = toNumber(value) - Number(filter.value);
+  } else if (kind === "temporal" && !isNaN(toTime(filter.value))) {
+    cmp = toTime(value) - toTime(filter.value);
+  } else {
+    cmp = String(value).localeCompare(filter.value);
+  }
+
+  switch (filter.op) {
+    case "eq":
+      return kind === "text" ? String(value) === filter.value : cmp === 0;
+    case "neq":
+      return kind === "text" ? String(value) !== filter.value : cmp !== 0;
+    case "gt":
+      return cmp > 0;
+    case "gte":
+      return cmp >= 0;
+    case "lt":
+      return cmp < 0;
+    case "lte":
+      return cmp <= 0;
+  }
+}
+
+/** Keep rows that satisfy every filter. */
+export function applyFilters(
+  rows: Record<string, unknown>[],
+  filters: ColumnFilter[],
+  dataTypes: Map<string, string>,
+): Record<string, unknown>[] {
+  if (filters.length === 0) return rows;
+  const kinds = new Map(filters.map((f) => [f.column, columnKind(f.column, rows, dataTypes.get(f.column))]));
+  return rows.filter((row) => filters.every((f) => matches(row[f.column], f, kinds.get(f.column)!)));
+}
+
+/**
+ * Pick up to `size` rows for column sizing: the leading rows (which are the
+ * first ones shown) plus an evenly spaced sample of the rest.
+ */
+export function sampleRows<T>(rows: T[], size: number): T[] {
+  if (rows.length <= size) return rows;
+  const head = Math.floor(size / 2);
+  const sample = rows.slice(0, head);
+  const stride = (rows.length - head) / (size - head);
+  for (let i = 0; i < size - head; i++) sample.push(rows[head + Math.floor(i * stride)]!);
+  return sample;
+}
+
+/**
+ * Display width of each column: the widest of its header and its values in a
+ * sample of `sampleSize` rows, capped at `maxWidth`. Sampling keeps the cost
+ * flat however many rows are loaded.
+ */
+export function columnWidths(
+  rows: Record<string, unknown>[],
+  columns: string[],
+  header: (column: string) => string,
+  sampleSize: number,
+  maxWidth: number,
+): number[] {
+  const sample = sampleRows(rows, sampleSize);
+  return columns.map((col) => {
+    let max = header(col).length;
+    for (const row of sample) {
+      const val = toText(row[col]);
+      if (val.length > max) max = val.length;
+    }
+    return Math.min(max, maxWidth);
+  });
+}
+
+/** The page of rows starting at `scrollY`, clamped so the last page is full. */
+export function rowWindow<T>(rows: T[], scrollY: number, pageSize: number): { start: number; rows: T[] } {
+  const start = Math.min(scrollY, Math.max(0, rows.length - pageSize));
+  return { start, rows: rows.slice(start, start + pageSize) };
+}
+
+/** Full text of a cell for the inspector; structured values are pretty-printed JSON. */
+export function inspectValue(value: unknown, dataType?: string): string {
+  if (value === null || value === undefined) return "NULL";
+  const json = toJsonValue(typedValue(value, dataType));
+  if (typeof json === "object" && json !== null) return JSON.stringify(json, null, 2);
+  return String(json);
+}
+
+/** A row as a pretty-printed JSON object, keyed in column order. */
+export function rowJson(
+  row: Record<string, unknown>,
+  columns: string[],
+  dataTypes: Map<string, string>,
+): string {
+  const out: Record<string, unknown> = {};
+  for (const c of columns) out[c] = toJsonValue(typedValue(row[c], dataTypes.get(c)));
+  return JSON.stringify(out, null, 2);
+}
+
+/** Vertical "record view" of a row: one `name  value` entry per column, multi-line values indented. */
+export function recordLines(
+  row: Record<string, unknown>,
+  columns: string[],
+  dataTypes: Map<string, string>,
+): string[] {
+  const nameWidth = Math.max(...columns.map((c) => c.length));
+  const lines: string[] = [];
+  for (const c of columns) {
+    const [first = "", ...rest] = inspectValue(row[c], dataTypes.get(c)).split("\n");
+    lines.push(`${c.padEnd(nameWidth)}  ${first}`);
+    for (const line of rest) lines.push(`${" ".repeat(nameWidth + 2)}${line}`);
+  }
+  return lines;
+}
+
+/** Hard-wrap lines to a fixed width so the inspector can scroll by display line. */
+export function wrapLines(lines: string[], width: number): string[] {
+  const w = Math.max(1, width);
+  const out: string[] = [];
+  for (const line of lines) {
+    if (line.length <= w) {
+      out.push(line);
+      continue;
+    }
+    for (let i = 0; i < line.length; i += w) out.push(line.slice(i, i + w));
+  }
+  return out;
+}
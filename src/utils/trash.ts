@@ -0,0 +1,123 @@
+import { readFile, writeFile, mkdir, rename } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import { homedir } from "node:os";
+import type { DatalatheClient, ChipsResponse } from "@datalathe/client";
+import { loadChipRecords, type ChipRecord } from "./chip-records.js";
+import { chipDefinition, type ChipDefinition } from "./chip-definition.js";
+import { chipMetadataExport, type ChipMetadataExport } from "./bulk-actions.js";
+
+export const TRASH_FILE = join(homedir(), ".datalathe", "trash.json");
+
+/** Oldest entries are dropped beyond this many. */
+const MAX_TRASH_ENTRIES = 500;
+
+/** A deleted chip, kept so it can be created again. */
+export interface TrashEntry {
+  chipId: string;
+  connectionUrl: string;
+  /** Unix-seconds epoch of when the chip was trashed. */
+  deletedAt: number;
+  name: string;
+  definition: ChipDefinition;
+  /** Metadata, tables and tags as the engine reported them before deletion. */
+  snapshot: ChipMetadataExport;
+  /**
+   * Set while the deletion is still waiting out its undo window, and left set
+   * if the app exits before deleting: the chip may well still exist.
+   */
+  pending?: boolean;
+}
+
+async function readTrash(): Promise<TrashEntry[]> {
+  try {
+    const raw = await readFile(TRASH_FILE, "utf8");
+    const entries = JSON.parse(raw) as TrashEntry[];
+    return Array.isArray(entries) ? entries : [];
+  } catch {
+    return [];
+  }
+}
+
+async function writeTrash(entries: TrashEntry[]): Promise<void> {
+  await mkdir(dirname(TRASH_FILE), { recursive: true });
+  const tmpPath = TRASH_FILE + ".tmp";
+  await writeFile(tmpPath, JSON.stringify(entries.slice(-MAX_TRASH_ENTRIES), null, 2) + "\n");
+  await rename(tmpPath, TRASH_FILE);
+}
+
+const sameChip = (a: { chipId: string; connectionUrl: string }, b: { chipId: string; connectionUrl: string }) =>
+  a.chipId === b.chipId && a.connectionUrl === b.connectionUrl;
+
+/** Trashed chips for one engine, most recently deleted first. */
+export async function loadTrash(connectionUrl: string): Promise<TrashEntry[]> {
+  return (await readTrash())
+    .filter((e) => e.connectionUrl === connectionUrl)
+    .sort((a, b) => b.deletedAt - a.deletedAt);
+}
+
+/** Add entries, replacing any earlier entry for the same chip. */
+export async function addToTrash(added: TrashEntry[]): Promise<void> {
+  const entries = (await readTrash()).filter((e) => !added.some((a) => sameChip(a, e)));
+  await writeTrash([...entries, ...added]);
+}
+
+/** Mark entries as really deleted once the engine has removed their chips. */
+export async function confirmTrash(chipIds: string[], connectionUrl: string): Promise<void> {
+  const entries = await readTrash();
+  let changed = false;
+  const confirmed = entries.map((e) => {
+    if (!e.pending || e.connectionUrl !== connectionUrl || !chipIds.includes(e.chipId)) return e;
+    changed = true;
+    const entry = { ...e };
+    delete entry.pending;
+    return entry;
+  });
+  if (changed) await writeTrash(confirmed);
+}
+
+export async function removeFromTrash(chipIds: string[], connectionUrl: string): Promise<void> {
+  const entries = await readTrash();
+  const kept = entries.filter((e) => !(e.connectionUrl === connectionUrl && chipIds.includes(e.chipId)));
+  if (kept.length !== entries.length) await writeTrash(kept);
+}
+
+/** Build trash entries from the engine's current view of the chips and any local creation records. */
+export function trashEntries(
+  chipIds: string[],
+  connectionUrl: string,
+  data: ChipsResponse,
+  records: ChipRecord[],
+): TrashEntry[] {
+  const deletedAt = Math.floor(Date.now() / 1000);
+  const snapshots = chipMetadataExport(chipIds, data, records);
+  return chipIds.map((chipId, i) => {
+    const definition = chipDefinition(chipId, data, records.find((r) => r.chipId === chipId));
+    return {
+      chipId,
+      connectionUrl,
+      deletedAt,
+      name: definition.name,
+      definition,
+      snapshot: snapshots[i],
+      pending: true,
+    };
+  });
+}
+
+/**
+ * Fetch what's needed to re-create the chips and add them to the trash as
+ * pending; confirmTrash marks them deleted once they are.
+ */
+export async function captureToTrash(
+  client: DatalatheClient,
+  chipIds: string[],
+  connectionUrl: string,
+): Promise<TrashEntry[]> {
+  const [data, records]: [ChipsResponse, ChipRecord[]] = await Promise.all([
+    client.listChips(),
+    loadChipRecords(connectionUrl),
+  ]);
+  const entries = trashEntries(chipIds, connectionUrl, data, records);
+  await addToTrash(entries);
+  return entries;
+}
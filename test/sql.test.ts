@@ -0,0 +1,52 @@
+import { describe, it, expect } from "vitest";
+import { splitStatements } from "../src/utils/sql.js";
+
+describe("splitStatements", () => {
+  it("splits on top-level semicolons and trims each statement", () => {
+    expect(splitStatements("SELECT 1;\n  SELECT 2 ;SELECT 3")).toEqual(["SELECT 1", "SELECT 2", "SELECT 3"]);
+  });
+
+  it("drops empty statements and ones holding only comments", () => {
+    expect(splitStatements(";; SELECT 1;;\n-- nothing here\n; /* or here */ ;")).toEqual(["SELECT 1"]);
+    expect(splitStatements("  \n")).toEqual([]);
+  });
+
+  it("ignores semicolons inside single-quoted strings, including doubled-quote escapes", () => {
+    expect(splitStatements("SELECT 'a;b'; SELECT 'it''s; fine'")).toEqual([
+      "SELECT 'a;b'",
+      "SELECT 'it''s; fine'",
+    ]);
+  });
+
+  it("ignores semicolons inside quoted identifiers", () => {
+    expect(splitStatements('SELECT "odd;name", "say ""hi"";" FROM t; SELECT 2')).toEqual([
+      'SELECT "odd;name", "say ""hi"";" FROM t',
+      "SELECT 2",
+    ]);
+  });
+
+  it("ignores semicolons inside dollar-quoted bodies, tagged or not", () => {
+    expect(splitStatements("SELECT $$a;b$$; SELECT $fn$ x; $$ y $fn$; SELECT 3")).toEqual([
+      "SELECT $$a;b$$",
+      "SELECT $fn$ x; $$ y $fn$",
+      "SELECT 3",
+    ]);
+  });
+
+  it("ignores semicolons inside line and block comments", () => {
+    expect(splitStatements("SELECT 1 -- not; the end\n, 2; SELECT /* a; b */ 3")).toEqual([
+      "SELECT 1 -- not; the end\n, 2",
+      "SELECT /* a; b */ 3",
+    ]);
+  });
+
+  it("keeps leading comments but trims trailing ones, so appended clauses stay live", () => {
+    expect(splitStatements("-- totals\nSELECT 1 -- note")).toEqual(["-- totals\nSELECT 1"]);
+    expect(splitStatements("SELECT 1 /* tail */; SELECT 2 -- end")).toEqual(["SELECT 1", "SELECT 2"]);
+  });
+
+  it("keeps an unterminated string or comment to the end of the script", () => {
+    expect(splitStatements("SELECT 'open; still open")).toEqual(["SELECT 'open; still open"]);
+    expect(splitStatements("SELECT 1 /* open; comment")).toEqual(["SELECT 1"]);
+  });
+});
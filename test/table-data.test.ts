@@ -0,0 +1,94 @@
+import { describe, it, expect } from "vitest";
+import { applyFilters, parseFilter, sortRows } from "../src/utils/table-data.js";
+
+describe("parseFilter", () => {
+  it("returns null for an empty expression", () => {
+    expect(parseFilter("a", "   ")).toBeNull();
+  });
+
+  it("reads null tests case-insensitively", () => {
+    expect(parseFilter("a", "NULL")).toEqual({ column: "a", op: "null", value: "" });
+    expect(parseFilter("a", "!null")).toEqual({ column: "a", op: "not-null", value: "" });
+  });
+
+  it("prefers two-character operators over their one-character prefixes", () => {
+    expect(parseFilter("a", ">= 5")).toEqual({ column: "a", op: "gte", value: "5" });
+    expect(parseFilter("a", "<=5")).toEqual({ column: "a", op: "lte", value: "5" });
+    expect(parseFilter("a", "!=x")).toEqual({ column: "a", op: "neq", value: "x" });
+    expect(parseFilter("a", ">5")).toEqual({ column: "a", op: "gt", value: "5" });
+    expect(parseFilter("a", "<5")).toEqual({ column: "a", op: "lt", value: "5" });
+    expect(parseFilter("a", "=5")).toEqual({ column: "a", op: "eq", value: "5" });
+  });
+
+  it("treats ~text and bare text as substring matches", () => {
+    expect(parseFilter("a", "~ Foo")).toEqual({ column: "a", op: "contains", value: "Foo" });
+    expect(parseFilter("a", "foo bar")).toEqual({ column: "a", op: "contains", value: "foo bar" });
+  });
+});
+
+describe("sortRows", () => {
+  const values = (rows: Record<string, unknown>[]) => rows.map((r) => r.v);
+
+  it("sorts nulls last in both directions", () => {
+    const rows = [{ v: 2 }, { v: null }, { v: 1 }, { v: undefined }, { v: 3 }];
+    expect(values(sortRows(rows, { column: "v", direction: "asc" }))).toEqual([1, 2, 3, null, undefined]);
+    expect(values(sortRows(rows, { column: "v", direction: "desc" }))).toEqual([3, 2, 1, null, undefined]);
+  });
+
+  it("compares numeric strings as numbers when the column type is numeric", () => {
+    const rows = [{ v: "10.5" }, { v: "9" }, { v: "100" }, { v: "-2" }];
+    expect(values(sortRows(rows, { column: "v", direction: "asc" }, "DECIMAL(18,3)"))).toEqual([
+      "-2",
+      "9",
+      "10.5",
+      "100",
+    ]);
+  });
+
+  it("compares numeric strings as text when the column type is text", () => {
+    const rows = [{ v: "10" }, { v: "9" }, { v: "100" }];
+    expect(values(sortRows(rows, { column: "v", direction: "asc" }, "VARCHAR"))).toEqual(["10", "100", "9"]);
+  });
+
+  it("orders bigints exactly beyond the safe integer range", () => {
+    const big = 2n ** 60n;
+    const rows = [{ v: big + 1n }, { v: big }, { v: -big }];
+    expect(values(sortRows(rows, { column: "v", direction: "asc" }))).toEqual([-big, big, big + 1n]);
+  });
+
+  it("sorts temporal columns chronologically and intervals as text", () => {
+    const dates = [{ v: "2024-03-01" }, { v: "2023-12-31" }, { v: "2024-01-15" }];
+    expect(values(sortRows(dates, { column: "v", direction: "asc" }, "DATE"))).toEqual([
+      "2023-12-31",
+      "2024-01-15",
+      "2024-03-01",
+    ]);
+    const intervals = [{ v: "3 days" }, { v: "1 day" }, { v: "2 days" }];
+    expect(values(sortRows(intervals, { column: "v", direction: "asc" }, "INTERVAL"))).toEqual([
+      "1 day",
+      "2 days",
+      "3 days",
+    ]);
+  });
+
+  it("keeps the original order of equal values", () => {
+    const rows = [{ v: 1, id: "a" }, { v: 0, id: "b" }, { v: 1, id: "c" }];
+    expect(sortRows(rows, { column: "v", direction: "desc" }, "INTEGER").map((r) => r.id)).toEqual(["a", "c", "b"]);
+  });
+});
+
+describe("applyFilters", () => {
+  const rows = [{ v: "9" }, { v: "10" }, { v: null }, { v: "100" }];
+  const filter = (expr: string, type: string) =>
+    applyFilters(rows, [parseFilter("v", expr)!], new Map([["v", type]])).map((r) => r.v);
+
+  it("compares by the column type rather than as text", () => {
+    expect(filter(">9", "INTEGER")).toEqual(["10", "100"]);
+    expect(filter(">9", "VARCHAR")).toEqual([]);
+  });
+
+  it("excludes nulls from comparisons but matches them with null", () => {
+    expect(filter("!=9", "INTEGER")).toEqual(["10", "100"]);
+    expect(filter("null", "INTEGER")).toEqual([null]);
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect } from "vitest";
+import { performance } from "node:perf_hooks";
+import { columnWidths, rowWindow, sampleRows } from "../src/utils/table-data.js";
+import { toText } from "../src/utils/export.js";
+
+const ROW_COUNT = 100_000;
+const WIDTH_SAMPLE_SIZE = 500;
+const PAGE_SIZE = 40;
+/** Generous enough for a slow CI machine; a full scan of 100k rows per keypress blows well past it. */
+const KEYPRESS_BUDGET_MS = 50;
+
+function generateRows(count: number): Record<string, unknown>[] {
+  const rows: Record<string, unknown>[] = [];
+  for (let i = 0; i < count; i++) {
+    rows.push({
+      id: i,
+      big: BigInt(i) * 1_000_000_007n,
+      name: `customer-${i.toString(36)}`,
+      amount: (i * 37.5) % 10_000,
+      active: i % 3 === 0,
+      created: new Date(1_700_000_000_000 + i * 60_000),
+      tags: ["a", "b", String(i % 7)],
+      address: { city: `city-${i % 100}`, zip: String(10_000 + (i % 90_000)) },
+    });
+  }
+  return rows;
+}
+
+function timed(fn: () => void): number {
+  const start = performance.now();
+  fn();
+  return performance.now() - start;
+}
+
+/** Median of several runs, so one GC pause doesn't fail the test. */
+function medianMs(fn: () => void, runs = 5): number {
+  const times = Array.from({ length: runs }, () => timed(fn)).sort((a, b) => a - b);
+  return times[Math.floor(runs / 2)]!;
+}
+
+describe("table view with 100k rows", () => {
+  const rows = generateRows(ROW_COUNT);
+  const columns = Object.keys(rows[0]!);
+
+  it("samples a bounded number of rows for column sizing", () => {
+    const sample = sampleRows(rows, WIDTH_SAMPLE_SIZE);
+    expect(sample).toHaveLength(WIDTH_SAMPLE_SIZE);
+    expect(sample[0]).toBe(rows[0]);
+    expect(sample).toContain(rows[WIDTH_SAMPLE_SIZE / 2]);
+    expect(medianMs(() => sampleRows(rows, WIDTH_SAMPLE_SIZE))).toBeLessThan(KEYPRESS_BUDGET_MS);
+  });
+
+  it("computes column widths within a keypress budget", () => {
+    let widths: number[] = [];
+    const ms = medianMs(() => {
+      widths = columnWidths(rows, columns, (c) => c, WIDTH_SAMPLE_SIZE, 30);
+    });
+    expect(widths).toHaveLength(columns.length);
+    expect(Math.max(...widths)).toBeLessThanOrEqual(30);
+    expect(ms).toBeLessThan(KEYPRESS_BUDGET_MS);
+  });
+
+  it("scrolls from top to bottom formatting only the visible window", () => {
+    const positions = [0, 1, 8, 500, 50_000, 99_000, ROW_COUNT - PAGE_SIZE, ROW_COUNT + 10];
+    const ms = medianMs(() => {
+      for (const y of positions) {
+        const { rows: page } = rowWindow(rows, y, PAGE_SIZE);
+        for (const row of page) columns.map((c) => toText(row[c])).join(" │ ");
+      }
+    });
+    // Eight scroll steps, each well under a frame
+    expect(ms / positions.length).toBeLessThan(KEYPRESS_BUDGET_MS);
+
+    const last = rowWindow(rows, ROW_COUNT + 10, PAGE_SIZE);
+    expect(last.start).toBe(ROW_COUNT - PAGE_SIZE);
+    expect(last.rows).toHaveLength(PAGE_SIZE);
+  });
+});